@@ -3,12 +3,16 @@ import { motion, AnimatePresence, useInView, useMotionValue, useSpring } from "f
 import { type CalculateBetaResponse } from "@shared/schema";
 import {
   TrendingUp, TrendingDown, Minus, Info, Download, Settings2,
-  Activity, BarChart2, Target, Layers, Zap, ExternalLink, Building2
+  Activity, BarChart2, Target, Layers, Zap, ExternalLink, Building2, AlertTriangle
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { useRollingBeta } from "@/hooks/use-beta";
+import { SavePeerGroupDialog } from "@/components/SavePeerGroupDialog";
 
 interface Props { data: CalculateBetaResponse; }
 
@@ -30,6 +34,7 @@ const METRIC_DEFS: Record<string, { full: string; short: string; def: string; ca
   revenue:         { full: "Total Revenue (TTM)",            short: "Revenue",     def: "Total income generated from business operations over the trailing 12 months.",                                       category: "Size",      fmt: v => `₹${(v/1e7).toLocaleString('en-IN',{maximumFractionDigits:0})} Cr` },
   enterpriseValue: { full: "Enterprise Value",               short: "EV",          def: "Market Cap + Total Debt − Cash. Represents the theoretical takeover price.",                                         category: "Size",      fmt: v => `₹${(v/1e7).toLocaleString('en-IN',{maximumFractionDigits:0})} Cr` },
   ebitda:          { full: "EBITDA (TTM)",                   short: "EBITDA",      def: "Earnings Before Interest, Taxes, Depreciation and Amortisation. Proxy for operating cash flow.",                    category: "Size",      fmt: v => `₹${(v/1e7).toLocaleString('en-IN',{maximumFractionDigits:0})} Cr` },
+  avgTradedValue:  { full: "Average Daily Traded Value",     short: "ADTV",        def: "Mean daily close × volume over the analysis window. Liquidity of the stock.",                                        category: "Size",      fmt: v => `₹${(v/1e7).toLocaleString('en-IN',{maximumFractionDigits:1})} Cr` },
   evRevenueMultiple:{ full: "EV / Revenue Multiple",         short: "EV/Rev",      def: "Enterprise Value divided by Revenue. Lower = relatively cheaper on a sales basis.",                                  category: "Valuation", fmt: v => `${v.toFixed(2)}x` },
   peRatio:         { full: "Price-to-Earnings Ratio (P/E)",  short: "P/E",         def: "Share price divided by earnings per share. How much investors pay per ₹1 of profit.",                               category: "Valuation", fmt: v => `${v.toFixed(1)}x` },
   pbRatio:         { full: "Price-to-Book Ratio (P/B)",      short: "P/B",         def: "Share price divided by book value per share. <1 may indicate undervaluation.",                                       category: "Valuation", fmt: v => `${v.toFixed(2)}x` },
@@ -41,14 +46,38 @@ const METRIC_DEFS: Record<string, { full: string; short: string; def: string; ca
   returnOnAssets:  { full: "Return on Assets (ROA)",         short: "ROA",         def: "Net income as a percentage of total assets. Measures asset utilisation efficiency.",                                 category: "Returns",   fmt: v => `${(v*100).toFixed(1)}%` },
   debtToEquity:    { full: "Debt-to-Equity Ratio (D/E)",     short: "D/E",         def: "Total liabilities divided by shareholders' equity. Higher = more leverage and financial risk.",                      category: "Risk",      fmt: v => `${v.toFixed(2)}x` },
   currentRatio:    { full: "Current Ratio",                  short: "Curr. Ratio", def: "Current assets divided by current liabilities. >1 means company can cover short-term obligations.",                 category: "Risk",      fmt: v => `${v.toFixed(2)}x` },
-  volatility:      { full: "Annualised Volatility",          short: "Volatility",  def: "Annualised standard deviation of daily returns. Measures how much the stock price fluctuates.",                      category: "Beta/Risk", fmt: v => `${(v*100).toFixed(1)}%` },
+  volatility:      { full: "Annualised Volatility",          short: "Volatility",  def: "Annualised standard deviation of periodic returns. Measures how much the stock price fluctuates.",                      category: "Beta/Risk", fmt: v => `${(v*100).toFixed(1)}%` },
+  alpha:           { full: "Jensen's Alpha (Annualised)",   short: "Alpha (α)",   def: "Annualised intercept of the regression of excess returns (over the risk-free rate) on benchmark excess returns. Return earned beyond what beta predicts.", category: "Beta/Risk", fmt: v => `${(v*100).toFixed(2)}%` },
   rSquared:        { full: "R² (Coefficient of Determination)", short: "R²",       def: "Proportion of the stock's movement explained by the benchmark index. Range 0–1.",                                    category: "Beta/Risk", fmt: v => v.toFixed(3) },
+  dataPoints:      { full: "Aligned Observations",           short: "Obs",         def: "Prices matched to the benchmark at the chosen frequency and used in the regression.",                                category: "Beta/Risk", fmt: v => v.toFixed(0) },
+  downsideBeta:    { full: "Downside Beta",                  short: "β Down",      def: "Beta estimated only on periods when the benchmark fell. Sensitivity to market declines.",                           category: "Beta/Risk", fmt: v => v.toFixed(3) },
+  upsideBeta:      { full: "Upside Beta",                    short: "β Up",        def: "Beta estimated only on periods when the benchmark rose. Participation in market rallies.",                          category: "Beta/Risk", fmt: v => v.toFixed(3) },
+  downsideVolatility:{ full: "Downside Volatility",          short: "Down Vol",    def: "Annualised semi-deviation of returns below zero. Counts only harmful volatility.",                                   category: "Beta/Risk", fmt: v => `${(v*100).toFixed(1)}%` },
+  sortinoRatio:    { full: "Sortino Ratio",                  short: "Sortino",     def: "Annualised return divided by downside volatility. Higher = more return per unit of downside risk.",                 category: "Beta/Risk", fmt: v => v.toFixed(2) },
+  maxDrawdown:     { full: "Maximum Drawdown",               short: "Max DD",      def: "Largest peak-to-trough fall in value over the analysis window.",                                                     category: "Beta/Risk", fmt: v => `${(v*100).toFixed(1)}%` },
+  sharpeRatio:     { full: "Sharpe Ratio",                   short: "Sharpe",      def: "Annualised excess return over the risk-free rate divided by the volatility of excess returns.",                     category: "Beta/Risk", fmt: v => v.toFixed(2) },
+  treynorRatio:    { full: "Treynor Ratio",                  short: "Treynor",     def: "Annualised excess return over the risk-free rate per unit of beta. Reward for systematic risk taken.",              category: "Beta/Risk", fmt: v => `${(v*100).toFixed(2)}%` },
+};
+
+// Return observations per year for each sampling frequency (matches the server's annualisation)
+const PERIODS_PER_YEAR: Record<string, number> = { daily: 252, weekly: 52, monthly: 12 };
+const FREQUENCY_LABEL: Record<string, string> = { daily: "Daily", weekly: "Weekly", monthly: "Monthly" };
+const BETA_METHOD_LABEL: Record<string, string> = { ols: "OLS", dimson: "Dimson", scholesWilliams: "Scholes–Williams" };
+const RISK_FREE_LABEL: Record<string, string> = { constant: "constant", tbill: "T-bill avg" };
+const CONFIDENCE_STYLE: Record<string, string> = {
+  High: "text-emerald-400/80 bg-emerald-500/8 border-emerald-500/20",
+  Medium: "text-blue-400/80 bg-blue-500/8 border-blue-500/20",
+  Fallback: "text-white/30 bg-white/4 border-white/8",
+};
+
+const SCREEN_LABEL: Record<string, string> = {
+  missingData: "no data", marketCapBand: "cap band", avgTradedValue: "liquidity", rSquared: "R²", dataPoints: "obs", maxPeers: "max peers",
 };
 
 const CATEGORY_ORDER = ["Size", "Valuation", "Income", "Margins", "Returns", "Risk", "Beta/Risk"];
 
 const ALL_METRIC_IDS = Object.keys(METRIC_DEFS);
-const DEFAULT_VISIBLE = ["marketCap", "revenue", "enterpriseValue", "evRevenueMultiple", "peRatio", "pbRatio", "profitMargin", "debtToEquity", "volatility"];
+const DEFAULT_VISIBLE = ["marketCap", "revenue", "enterpriseValue", "evRevenueMultiple", "peRatio", "pbRatio", "profitMargin", "debtToEquity", "volatility", "alpha"];
 
 // ── Tooltip helper ────────────────────────────────────────────────────────────
 function MetricTip({ id }: { id: string }) {
@@ -77,26 +106,95 @@ function getBetaCfg(beta: number | null) {
                      return { label: "Neutral",    color: "text-primary",    bg: "bg-primary/8",       Icon: Minus };
 }
 
+// Confidence intervals wider than this (in beta units) are flagged as unreliable
+const WIDE_CI_WIDTH = 0.5;
+
+const fmtPValue = (p: number) => p < 0.001 ? "<0.001" : p.toFixed(3);
+
 const fmt = (id: string, v: number) => METRIC_DEFS[id]?.fmt(v) ?? String(v);
 const val = (obj: any, id: string) => (obj[id] !== undefined && obj[id] !== null) ? obj[id] : null;
 
 const stagger = { hidden: { opacity: 0 }, show: { opacity: 1, transition: { staggerChildren: 0.06 } } };
 const up = { hidden: { opacity: 0, y: 16 }, show: { opacity: 1, y: 0, transition: { duration: 0.45, ease: [0.16, 1, 0.3, 1] } } };
 
+// ── Rolling beta chart ────────────────────────────────────────────────────────
+const rollingChartConfig = {
+  beta: { label: "Beta", color: "hsl(38, 92%, 50%)" },
+  peerMedian: { label: "Peer Median", color: "hsl(217, 91%, 60%)" },
+} satisfies ChartConfig;
+
+function RollingBetaChart({ data }: Props) {
+  const exchange = data.exchange === "BSE" ? "BSE" : "NSE";
+  const params = data.startDate && data.endDate ? {
+    // Follow the fallback listing when the requested one was too short to regress
+    ticker: data.regressionTicker ?? data.ticker,
+    exchange,
+    benchmark: data.benchmark,
+    startDate: data.startDate,
+    endDate: data.endDate,
+    frequency: (data.frequency ?? "daily") as "daily" | "weekly" | "monthly",
+    betaMethod: (data.betaMethod ?? "ols") as "ols" | "dimson" | "scholesWilliams",
+    useAdjustedPrices: data.useAdjustedPrices === false ? "false" : "true",
+    dropSuspiciousReturns: data.dropSuspiciousReturns ? "true" : "false",
+    preferExchangeBars: data.preferExchangeBars ? "true" : "false",
+    // A constant rate averages to itself, so the reported rate is the one that was requested
+    riskFreeSource: (data.riskFreeSource ?? "none") as "none" | "constant" | "tbill",
+    riskFreeRate: data.riskFreeSource === "constant" ? data.riskFreeRate : undefined,
+    peers: data.peers.map(p => p.ticker).join(","),
+  } as const : null;
+  const { data: rolling, isLoading, error } = useRollingBeta(params);
+
+  const peerByDate = new Map((rolling?.peerMedian ?? []).map(p => [p.date, p.beta]));
+  const points = (rolling?.series ?? []).map(p => ({ date: p.date, beta: p.beta, peerMedian: peerByDate.get(p.date) ?? null }));
+
+  return (
+    <motion.div variants={up} className="card-premium">
+      <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-white/[0.02]">
+        <div className="flex items-center gap-2">
+          <Target className="w-3.5 h-3.5 text-primary" />
+          <span className="text-[9px] font-mono text-white/35 uppercase tracking-[0.18em]">Rolling Beta</span>
+        </div>
+        {rolling && (
+          <span className="text-[9px] font-mono text-white/20">
+            {rolling.window}-obs window · step {rolling.step} · vs {rolling.marketIndex}
+          </span>
+        )}
+      </div>
+      <div className="p-5">
+        {isLoading && <div className="h-56 rounded bg-white/[0.02] animate-pulse" />}
+        {error && <p className="text-xs font-mono text-white/30">{(error as Error).message}</p>}
+        {!isLoading && !error && points.length > 0 && (
+          <ChartContainer config={rollingChartConfig} className="h-56 w-full aspect-auto">
+            <LineChart data={points} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+              <CartesianGrid vertical={false} strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={40} tick={{ fontSize: 9 }} />
+              <YAxis tickLine={false} axisLine={false} width={48} tick={{ fontSize: 9 }} domain={["auto", "auto"]} tickFormatter={(v: number) => v.toFixed(2)} />
+              <ReferenceLine y={1} stroke="rgba(255,255,255,0.15)" strokeDasharray="4 4" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line type="monotone" dataKey="beta" stroke="var(--color-beta)" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="peerMedian" stroke="var(--color-peerMedian)" strokeWidth={1.5} strokeDasharray="4 3" dot={false} connectNulls />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
 export function ResultsSection({ data }: Props) {
   const [visible, setVisible] = useState<string[]>(DEFAULT_VISIBLE);
   const toggle = (id: string) => setVisible(p => p.includes(id) ? p.filter(m => m !== id) : [...p, id]);
 
   const exportCSV = () => {
     const cols = ALL_METRIC_IDS.filter(id => visible.includes(id));
-    const hdr = ["#", "Company", "Ticker", "Industry", "Beta", "Alpha", ...cols.map(id => METRIC_DEFS[id].short)];
+    const hdr = ["#", "Company", "Ticker", "Industry", "Beta", ...cols.map(id => METRIC_DEFS[id].short)];
     const row = (obj: any, idx: number | string) => [
       String(idx),
       obj.name || obj.ticker,
       obj.ticker,
       obj.industry || obj.sector?.split(" > ")[1] || "—",
       obj.beta !== null ? Number(obj.beta).toFixed(3) : "—",
-      obj.alpha !== null ? Number(obj.alpha).toFixed(5) : "—",
       ...cols.map(id => val(obj, id) !== null ? METRIC_DEFS[id].fmt(val(obj, id)!).replace(/[₹,]/g, '') : "—")
     ];
     const csv = [hdr, row(data, 0), ...data.peers.map((p, i) => row(p, i + 1))].map(r => r.map(v => `"${v}"`).join(",")).join("\n");
@@ -109,6 +207,8 @@ export function ResultsSection({ data }: Props) {
   const sortedB = [...validBetas].sort((a, b) => a - b);
   const mid = Math.floor(sortedB.length / 2);
   const medianBeta = sortedB.length === 0 ? null : sortedB.length % 2 !== 0 ? sortedB[mid] : (sortedB[mid-1] + sortedB[mid]) / 2;
+  const frequency = data.frequency ?? "daily";
+  const betaMethod = BETA_METHOD_LABEL[data.betaMethod ?? "ols"] ?? data.betaMethod;
   const betaCfg = getBetaCfg(data.beta);
   const BetaIcon = betaCfg.Icon;
 
@@ -127,11 +227,11 @@ export function ResultsSection({ data }: Props) {
           <div className="flex flex-wrap gap-4 text-[10px] font-mono text-white/40">
             <span className="flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse" />
-              Beta computed from <span className="text-white/70">{data.dataPoints?.toLocaleString() ?? "—"} daily price observations</span>
+              Beta computed from <span className="text-white/70">{data.dataPoints?.toLocaleString() ?? "—"} {frequency} price observations</span>
             </span>
             <span className="flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 rounded-full bg-primary animate-pulse" style={{ animationDelay: "0.3s" }} />
-              Volatility annualised via <span className="text-white/70">√252 scaling</span>
+              Volatility annualised via <span className="text-white/70">√{PERIODS_PER_YEAR[frequency] ?? 252} scaling</span>
             </span>
             <span className="flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 rounded-full bg-blue-400 animate-pulse" style={{ animationDelay: "0.6s" }} />
@@ -139,7 +239,7 @@ export function ResultsSection({ data }: Props) {
             </span>
             <span className="flex items-center gap-1.5">
               <span className="w-1.5 h-1.5 rounded-full bg-purple-400 animate-pulse" style={{ animationDelay: "0.9s" }} />
-              Currency conversion at <span className="text-white/70">live USD/INR rate</span>
+              Currency conversion at <span className="text-white/70">reporting-date INR rates</span>
             </span>
           </div>
         </div>
@@ -152,7 +252,7 @@ export function ResultsSection({ data }: Props) {
             <Activity className="w-3.5 h-3.5 text-primary" />
             <span className="text-[9px] font-mono text-white/35 uppercase tracking-[0.18em]">Primary Asset Analysis</span>
           </div>
-          <a href={data.sourceUrl || `https://finance.yahoo.com/quote/${data.ticker}`} target="_blank" rel="noopener noreferrer"
+          <a href={data.sourceUrl === null ? undefined : data.sourceUrl || `https://finance.yahoo.com/quote/${data.ticker}`} target="_blank" rel="noopener noreferrer"
             className="text-[9px] font-mono text-white/20 hover:text-primary transition-colors flex items-center gap-1 uppercase tracking-wider">
             {data.ticker} <ExternalLink className="w-3 h-3" />
           </a>
@@ -181,8 +281,36 @@ export function ResultsSection({ data }: Props) {
                   {data.exchange} · {data.marketIndex}
                 </span>
                 <span className="text-[9px] font-mono text-white/20 bg-white/4 border border-white/6 px-2 py-0.5 rounded">
-                  {data.period ?? "5Y"} Daily
+                  {data.period ?? "5Y"} {FREQUENCY_LABEL[frequency] ?? frequency}
+                </span>
+                <span className="text-[9px] font-mono text-white/20 bg-white/4 border border-white/6 px-2 py-0.5 rounded">
+                  {betaMethod} β
+                </span>
+                <span className="text-[9px] font-mono text-white/20 bg-white/4 border border-white/6 px-2 py-0.5 rounded">
+                  {data.useAdjustedPrices === false ? "Raw closes" : "Adjusted closes"}
                 </span>
+                {data.riskFreeSource && data.riskFreeSource !== "none" && data.riskFreeRate !== undefined && (
+                  <span className="text-[9px] font-mono text-white/20 bg-white/4 border border-white/6 px-2 py-0.5 rounded">
+                    Rf {(data.riskFreeRate * 100).toFixed(2)}% {RISK_FREE_LABEL[data.riskFreeSource] ?? data.riskFreeSource}
+                  </span>
+                )}
+                {(data.priceSource === "nse" || data.priceSource === "bse") && (
+                  <span className="text-[9px] font-mono text-white/20 bg-white/4 border border-white/6 px-2 py-0.5 rounded">
+                    {data.priceSource.toUpperCase()} bhavcopy
+                  </span>
+                )}
+                {data.betaSource && data.betaSource !== "regression" && (
+                  <span className="text-[9px] font-mono text-amber-400 bg-amber-500/10 border border-amber-500/20 px-2 py-0.5 rounded"
+                    title={data.betaSourceNote ?? undefined}>
+                    {data.betaSource === "peerProxy" ? "Proxy β · peer median" : `β via ${data.regressionTicker}`}
+                  </span>
+                )}
+                {data.financialFx && data.financialFx.currency !== "INR" && (
+                  <span className="text-[9px] font-mono text-white/20 bg-white/4 border border-white/6 px-2 py-0.5 rounded"
+                    title={`Revenue and EBITDA reported in ${data.financialFx.currency}${data.revenueDate ? ` to ${data.revenueDate}` : ""}, converted at the ${data.financialFx.source} rate`}>
+                    {data.financialFx.currency}/INR {data.financialFx.rate.toFixed(2)} @ {data.financialFx.date}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -200,9 +328,80 @@ export function ResultsSection({ data }: Props) {
                   R² {data.rSquared ? data.rSquared.toFixed(3) : "—"} · ρ {data.correlation ? data.correlation.toFixed(3) : "—"}
                 </div>
               </div>
+              {data.adjustedBetas && (
+                <div className="pl-4 border-l border-white/8 space-y-1.5">
+                  {[
+                    { label: "Blume", v: data.adjustedBetas.blume, def: "0.67 × raw β + 0.33. Assumes betas revert toward the market beta of 1 over time." },
+                    { label: "Vasicek", v: data.adjustedBetas.vasicek, def: "Raw β shrunk toward the peer mean beta, weighted by the estimate's standard error versus the peer dispersion." },
+                  ].map(({ label, v, def }) => (
+                    <div key={label} className="flex items-baseline gap-2" title={def}>
+                      <span className="w-14 text-[8px] font-mono text-white/25 uppercase tracking-wider">{label}</span>
+                      <span className="font-mono text-sm font-semibold text-white/70 tabular-nums">{v !== null ? v.toFixed(3) : "—"}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Regression diagnostics */}
+          {data.diagnostics && (() => {
+            const d = data.diagnostics;
+            const ciWidth = d.confidenceInterval.upper - d.confidenceInterval.lower;
+            const items = [
+              { label: "Std Error", value: d.standardError.toFixed(3), def: "Standard error of the beta estimate. Smaller = more precise." },
+              { label: "t-Stat", value: d.tStat.toFixed(2), def: "Beta divided by its standard error. |t| above ~2 means beta is significantly different from zero." },
+              { label: "p-Value", value: fmtPValue(d.pValue), def: "Probability of a t-statistic this large if the true beta were zero." },
+              { label: `${Math.round(d.confidenceInterval.level * 100)}% CI`, value: `${d.confidenceInterval.lower.toFixed(3)} – ${d.confidenceInterval.upper.toFixed(3)}`, def: "Range that contains the true beta with the stated confidence." },
+              { label: "Idio. Risk", value: `${(d.residualStdDev * 100).toFixed(1)}%`, def: "Annualised standard deviation of regression residuals — the stock-specific risk the index does not explain." },
+              { label: "α t-Stat", value: d.alphaTStat.toFixed(2), def: "Alpha divided by its standard error. |t| below ~2 means alpha is indistinguishable from zero." },
+            ];
+            return (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-[8px] font-mono text-white/20 uppercase tracking-[0.2em]">Regression Diagnostics</span>
+                  {ciWidth > WIDE_CI_WIDTH && (
+                    <span className="flex items-center gap-1 text-[8px] font-mono text-amber-400 bg-amber-500/10 border border-amber-500/20 px-1.5 py-0.5 rounded uppercase tracking-wider">
+                      <AlertTriangle className="w-2.5 h-2.5" /> Wide confidence interval
+                    </span>
+                  )}
+                  <div className="flex-1 h-px bg-white/5" />
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+                  {items.map(({ label, value, def }) => (
+                    <div key={label} title={def} className="bg-white/[0.03] rounded border border-white/6 px-3 py-2.5">
+                      <div className="text-[8px] font-mono text-white/30 uppercase tracking-wider mb-1.5">{label}</div>
+                      <div className="font-mono text-sm font-medium text-white/80 tabular-nums">{value}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })()}
+
+          {/* Corporate-action screen */}
+          {data.suspiciousReturns && data.suspiciousReturns.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-[8px] font-mono text-white/20 uppercase tracking-[0.2em]">Suspicious Returns</span>
+                <span className="flex items-center gap-1 text-[8px] font-mono text-amber-400 bg-amber-500/10 border border-amber-500/20 px-1.5 py-0.5 rounded uppercase tracking-wider">
+                  <AlertTriangle className="w-2.5 h-2.5" /> Possible corporate actions
+                </span>
+                <div className="flex-1 h-px bg-white/5" />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {data.suspiciousReturns.map(r => (
+                  <div key={r.date} className="bg-white/[0.03] rounded border border-white/6 px-3 py-2 font-mono text-[10px] text-white/50 tabular-nums">
+                    <span className="text-white/70">{r.date}</span>
+                    <span className="mx-2">stock {(r.stockReturn * 100).toFixed(1)}%</span>
+                    <span>index {(r.marketReturn * 100).toFixed(1)}%</span>
+                    <span className={`ml-2 uppercase tracking-wider ${r.dropped ? "text-red-400" : "text-white/25"}`}>{r.dropped ? "dropped" : "kept"}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* ── FULL METRICS GRID grouped by category ── */}
           {CATEGORY_ORDER.map(cat => {
             const metricsInCat = ALL_METRIC_IDS.filter(id => METRIC_DEFS[id].category === cat && val(data, id) !== null);
@@ -294,6 +493,60 @@ export function ResultsSection({ data }: Props) {
         })()}
       </motion.div>
 
+      {/* ── BOTTOM-UP BETA ──────────────────────────────────────────────── */}
+      {data.bottomUpBeta && (() => {
+        const bu = data.bottomUpBeta;
+        const b = (v: number | null) => v !== null ? v.toFixed(3) : "—";
+        const pct = (v: number | null) => v !== null ? `${(v * 100).toFixed(1)}%` : "—";
+        const rows = [
+          { label: "Hamada", unlevered: bu.unlevered.hamada, current: bu.releveredAtCurrent.hamada, target: bu.releveredAtTarget?.hamada ?? null },
+          { label: "Harris–Pringle", unlevered: bu.unlevered.harrisPringle, current: bu.releveredAtCurrent.harrisPringle, target: bu.releveredAtTarget?.harrisPringle ?? null },
+        ];
+        return (
+          <motion.div variants={up} className="card-premium">
+            <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-white/[0.02]">
+              <div className="flex items-center gap-2">
+                <Layers className="w-3.5 h-3.5 text-primary" />
+                <span className="text-[9px] font-mono text-white/35 uppercase tracking-[0.18em]">Bottom-Up Beta</span>
+              </div>
+              <span className="text-[9px] font-mono text-white/20">
+                Tax {pct(bu.taxRate)} · {bu.peerCount} peers with D/E
+                {bu.skippedPeers && bu.skippedPeers.length > 0 && (
+                  <span className="text-amber-400/60" title={bu.skippedPeers.map(p => `${p.ticker}: ${p.reason}`).join("\n")}>
+                    {" "}· {bu.skippedPeers.length} skipped
+                  </span>
+                )}
+              </span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow className="hover:bg-transparent border-border">
+                  <TableHead className="pl-5 py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">Formula</TableHead>
+                  <TableHead className="text-right py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">Unlevered Median</TableHead>
+                  <TableHead className="text-right py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">Unlevered Mean</TableHead>
+                  <TableHead className="text-right py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">Relevered @ {pct(bu.currentDebtToEquity)} D/E</TableHead>
+                  <TableHead className="text-right pr-5 py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">Relevered @ {pct(bu.targetDebtToEquity)} D/E</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(r => (
+                  <TableRow key={r.label} className="border-b border-border/40 last:border-0">
+                    <TableCell className="pl-5 py-3 font-mono text-xs text-white/60">{r.label}</TableCell>
+                    <TableCell className="text-right py-3 font-mono text-sm text-white/80 tabular-nums">{b(r.unlevered.median)}</TableCell>
+                    <TableCell className="text-right py-3 font-mono text-xs text-white/40 tabular-nums">{b(r.unlevered.mean)}</TableCell>
+                    <TableCell className="text-right py-3 font-mono text-sm font-semibold text-primary tabular-nums">{b(r.current)}</TableCell>
+                    <TableCell className="text-right pr-5 py-3 font-mono text-sm text-white/70 tabular-nums">{b(r.target)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </motion.div>
+        );
+      })()}
+
+      {/* ── ROLLING BETA ────────────────────────────────────────────────── */}
+      {data.betaSource !== "peerProxy" && <RollingBetaChart data={data} />}
+
       {/* ── PEER TABLE ──────────────────────────────────────────────────── */}
       <motion.div variants={up} className="card-premium">
         <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-white/[0.02]">
@@ -301,6 +554,9 @@ export function ResultsSection({ data }: Props) {
             <Layers className="w-3.5 h-3.5 text-primary" />
             <span className="text-[9px] font-mono text-white/35 uppercase tracking-[0.18em]">Peer Comparables</span>
             <span className="text-[9px] font-mono text-white/20 bg-white/5 px-1.5 py-0.5 rounded">{data.peers.length}</span>
+            {data.peerGroup && (
+              <span className="text-[9px] font-mono text-purple-400/70 bg-purple-500/8 border border-purple-500/20 px-1.5 py-0.5 rounded">{data.peerGroup.name}</span>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <DropdownMenu>
@@ -328,6 +584,7 @@ export function ResultsSection({ data }: Props) {
                 })}
               </DropdownMenuContent>
             </DropdownMenu>
+            <SavePeerGroupDialog tickers={data.peers.map(p => p.ticker)} />
             <Button variant="outline" size="sm" onClick={exportCSV} className="h-7 text-[9px] font-mono uppercase tracking-wider gap-1.5 border-white/10 bg-transparent text-white/50 hover:bg-white/5">
               <Download className="w-3 h-3" /> CSV
             </Button>
@@ -341,10 +598,7 @@ export function ResultsSection({ data }: Props) {
                 <TableHead className="w-8 pl-5 py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">#</TableHead>
                 <TableHead className="min-w-[180px] py-3 text-[8px] font-mono uppercase tracking-widest text-white/20">Company</TableHead>
                 <TableHead className="text-right py-3 text-[8px] font-mono uppercase tracking-widest text-white/20 whitespace-nowrap">
-                  Beta <span className="text-[7px] text-white/15 normal-case font-normal">(β)</span>
-                </TableHead>
-                <TableHead className="text-right py-3 text-[8px] font-mono uppercase tracking-widest text-white/20 whitespace-nowrap">
-                  Alpha <span className="text-[7px] text-white/15 normal-case font-normal">(α)</span>
+                  Beta <span className="text-[7px] text-white/15 normal-case font-normal">(β · {betaMethod})</span>
                 </TableHead>
                 {ALL_METRIC_IDS.filter(id => visible.includes(id)).map(id => (
                   <TableHead key={id} className="text-right py-3 text-[8px] font-mono uppercase tracking-widest text-white/20 whitespace-nowrap">
@@ -366,7 +620,7 @@ export function ResultsSection({ data }: Props) {
                     <TableCell className="pl-5 py-3.5 font-mono text-[9px] text-white/20 tabular-nums">{idx + 1}</TableCell>
                     <TableCell className="py-3.5">
                       <div className="flex flex-col gap-0.5">
-                        <a href={peer.sourceUrl || `https://finance.yahoo.com/quote/${peer.ticker}`} target="_blank" rel="noopener noreferrer"
+                        <a href={peer.sourceUrl || (peer.customSeries ? undefined : `https://finance.yahoo.com/quote/${peer.ticker}`)} target="_blank" rel="noopener noreferrer"
                           className="text-sm font-semibold text-white/80 hover:text-primary transition-colors leading-tight flex items-center gap-1 group">
                           {peer.name}
                           <ExternalLink className="w-2.5 h-2.5 opacity-0 group-hover:opacity-40 transition-opacity" />
@@ -378,6 +632,20 @@ export function ResultsSection({ data }: Props) {
                               {peer.industry}
                             </span>
                           )}
+                          {peer.confidence && (
+                            <span className={`text-[7px] font-mono px-1 py-px border rounded uppercase tracking-wide ${CONFIDENCE_STYLE[peer.confidence]}`}
+                              title={peer.similarityScore !== undefined
+                                ? `Business description similarity ${peer.similarityScore.toFixed(2)}${peer.keywords?.length ? ` · ${peer.keywords.join(", ")}` : ""}`
+                                : "No precomputed description embedding; matched on industry only"}>
+                              {peer.confidence}{peer.similarityScore !== undefined ? ` · ${Math.round(peer.similarityScore * 100)}%` : ""}
+                            </span>
+                          )}
+                          {(peer.peerSource === "manual" || peer.peerSource === "group") && (
+                            <span className="text-[7px] font-mono px-1 py-px border rounded uppercase tracking-wide text-purple-400/80 bg-purple-500/8 border-purple-500/20"
+                              title={peer.peerSource === "group" ? `From peer group ${data.peerGroup?.name ?? ""}` : "Chosen by the analyst rather than discovered"}>
+                              {peer.peerSource === "group" ? "Group" : "Manual"}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </TableCell>
@@ -385,11 +653,12 @@ export function ResultsSection({ data }: Props) {
                       <span className={`font-mono text-sm font-semibold tabular-nums ${cfg.color}`}>
                         {peer.beta !== null ? peer.beta.toFixed(3) : "—"}
                       </span>
-                    </TableCell>
-                    <TableCell className="text-right py-3.5">
-                      <span className="font-mono text-xs text-white/35 tabular-nums">
-                        {peer.alpha !== null && peer.alpha !== undefined ? Number(peer.alpha).toFixed(5) : "—"}
-                      </span>
+                      {peer.beta === null && peer.error && (
+                        <div className="text-[7px] font-mono text-white/25 uppercase tracking-wider" title={peer.error}>No beta</div>
+                      )}
+                      {peer.betaMethod && peer.betaMethod !== data.betaMethod && (
+                        <div className="text-[7px] font-mono text-amber-400/70 uppercase tracking-wider">{BETA_METHOD_LABEL[peer.betaMethod] ?? peer.betaMethod}</div>
+                      )}
                     </TableCell>
                     {ALL_METRIC_IDS.filter(id => visible.includes(id)).map(id => {
                       const v = val(peer, id);
@@ -408,9 +677,18 @@ export function ResultsSection({ data }: Props) {
           </Table>
         </div>
 
+        {data.peerScreening && data.peerScreening.candidates > 0 && (
+          <div className="px-5 py-2 border-t border-border flex flex-wrap items-center gap-x-3 gap-y-1 text-[8px] font-mono text-white/25 uppercase tracking-wider">
+            <span>Screened {data.peerScreening.candidates} discovered · kept {data.peerScreening.kept}</span>
+            {Object.entries(data.peerScreening.removed).filter(([, n]) => n > 0).map(([key, n]) => (
+              <span key={key} className="text-white/35">−{n} {SCREEN_LABEL[key] ?? key}</span>
+            ))}
+            {data.peerScreening.notes.map(note => <span key={note} className="normal-case text-amber-400/60">{note}</span>)}
+          </div>
+        )}
         <div className="px-5 py-3 border-t border-border bg-white/[0.01] flex flex-wrap items-center justify-between gap-3">
           <p className="text-[8px] font-mono text-white/20 leading-relaxed">
-            All financials: TTM where applicable · Non-INR converted at live Yahoo Finance FX rate · Peers deduplicated by base symbol, normalised to {data.exchange} exchange · Sorted by market cap
+            All financials: TTM where applicable · Non-INR revenue converted at reporting-date FX rates · All betas estimated with {betaMethod} · Peers deduplicated by company, normalised to {data.exchange} exchange · Ranked by business similarity and industry match
           </p>
           <p className="text-[8px] font-mono text-white/15 shrink-0">
             Source: Yahoo Finance · Damodaran Classification
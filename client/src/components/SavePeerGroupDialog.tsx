@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+
+import { useCreatePeerGroup } from "@/hooks/use-beta";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+
+interface Props {
+  tickers: string[];
+}
+
+// Saves the peer table's tickers as a named group for later analyses
+export function SavePeerGroupDialog({ tickers }: Props) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const { mutate, isPending } = useCreatePeerGroup();
+
+  const save = () => mutate(
+    { name, description: description || null, tickers },
+    { onSuccess: () => { setOpen(false); setName(""); setDescription(""); } },
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={tickers.length === 0} className="h-7 text-[9px] font-mono uppercase tracking-wider gap-1.5 border-white/10 bg-transparent text-white/50 hover:bg-white/5">
+          <BookmarkPlus className="w-3 h-3" /> Save group
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">Save peer group</DialogTitle>
+          <DialogDescription className="text-xs">
+            {tickers.length} tickers from the peer table. Pick the group on the analysis form to use it instead of automatic discovery.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Input value={name} onChange={e => setName(e.target.value)} placeholder="Name, e.g. Indian IT services tier 1" maxLength={120} className="font-mono text-sm" />
+          <Textarea value={description} onChange={e => setDescription(e.target.value)} placeholder="Description (optional)" maxLength={500} className="text-sm min-h-[72px]" />
+          <p className="text-[9px] font-mono text-white/30 leading-relaxed break-words">{tickers.join(" · ")}</p>
+        </div>
+        <DialogFooter>
+          <Button onClick={save} disabled={!name.trim() || isPending} size="sm" className="gap-1.5">
+            {isPending && <Loader2 className="w-3 h-3 animate-spin" />} Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
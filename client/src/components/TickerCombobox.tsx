@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Command as CommandPrimitive } from "cmdk";
+import { Loader2, Search } from "lucide-react";
+import type { TickerSearchResult } from "@shared/schema";
+
+import { useTickerSearch } from "@/hooks/use-beta";
+import { Command, CommandEmpty, CommandItem, CommandList } from "@/components/ui/command";
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (result: TickerSearchResult) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+}
+
+// Free-text ticker box with suggestions from /api/tickers/search. Input is never limited to
+// the suggestions, so CUSTOM: series and symbols missing from the list still work.
+export function TickerCombobox({ value, onChange, onSelect, onBlur, placeholder }: Props) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(value), 200);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data: results = [], isFetching } = useTickerSearch(query);
+  const showList = open && query.trim().length >= 2 && !value.toUpperCase().startsWith("CUSTOM:");
+
+  return (
+    <Command shouldFilter={false} className="relative overflow-visible bg-transparent">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3 w-3 text-white/20" />
+        <CommandPrimitive.Input
+          value={value}
+          onValueChange={v => { onChange(v); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => { setOpen(false); onBlur?.(); }}
+          onKeyDown={e => { if (e.key === "Escape") setOpen(false); }}
+          placeholder={placeholder}
+          className="flex w-full rounded-md border px-3 py-2 pl-7 h-8 font-mono text-sm uppercase bg-white/5 border-white/10 text-white placeholder:text-white/15 outline-none focus:border-primary/50 transition-all"
+        />
+        {isFetching && <Loader2 className="absolute right-2.5 top-1/2 -translate-y-1/2 h-3 w-3 animate-spin text-white/25" />}
+      </div>
+      {showList && (
+        <CommandList className="absolute left-0 top-full z-50 mt-1 w-[360px] rounded-md border border-white/10 bg-black/90 backdrop-blur-xl p-1">
+          {!isFetching && (
+            <CommandEmpty className="py-3 text-center text-[10px] font-mono uppercase tracking-[0.18em] text-white/25">No matches</CommandEmpty>
+          )}
+          {results.map(r => (
+            <CommandItem
+              key={`${r.exchange}:${r.symbol}`}
+              value={`${r.exchange}:${r.symbol}`}
+              // Keep focus in the input so the blur handler doesn't close the list before the click lands
+              onMouseDown={e => e.preventDefault()}
+              onSelect={() => { onSelect(r); setOpen(false); }}
+              className="gap-2 text-white/70 data-[selected=true]:bg-white/8 data-[selected=true]:text-white"
+            >
+              <span className="font-mono text-xs font-semibold text-primary shrink-0">{r.symbol}</span>
+              <span className="truncate text-xs flex-1">{r.name}</span>
+              <span className="shrink-0 text-[9px] font-mono uppercase tracking-wide text-white/25">
+                {r.industry ? `${r.industry} · ` : ""}{r.exchange}
+              </span>
+            </CommandItem>
+          ))}
+        </CommandList>
+      )}
+    </Command>
+  );
+}
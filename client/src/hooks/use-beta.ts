@@ -1,6 +1,8 @@
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { api, type CalculateBetaRequest, type CalculateBetaResponse } from "@shared/routes";
+import { type PeerGroupInput, type RollingBetaQuery } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
 
 export function useCalculateBeta() {
   const { toast } = useToast();
@@ -31,6 +33,10 @@ export function useCalculateBeta() {
         if (res.status === 500) {
             throw new Error("Server error occurred while calculating beta");
         }
+        if (res.status === 503) {
+            const errorData = await res.json().catch(() => ({}));
+            throw new Error(errorData.message || "Market data is temporarily unavailable");
+        }
         throw new Error("Failed to calculate beta");
       }
 
@@ -46,3 +52,86 @@ export function useCalculateBeta() {
     },
   });
 }
+
+export function useRollingBeta(params: RollingBetaQuery | null) {
+  return useQuery({
+    queryKey: [api.beta.rolling.path, params],
+    enabled: !!params,
+    queryFn: async () => {
+      const search = new URLSearchParams();
+      Object.entries(params!).forEach(([key, value]) => {
+        if (value !== undefined && value !== "") search.set(key, String(value));
+      });
+
+      const res = await fetch(`${api.beta.rolling.path}?${search.toString()}`, { credentials: "include" });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to load rolling beta");
+      }
+      return api.beta.rolling.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useBenchmarks() {
+  return useQuery({
+    queryKey: [api.benchmarks.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.benchmarks.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load benchmarks");
+      return api.benchmarks.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useTickerSearch(query: string) {
+  const q = query.trim();
+  return useQuery({
+    queryKey: [api.tickers.search.path, q],
+    enabled: q.length >= 2,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const res = await fetch(`${api.tickers.search.path}?${new URLSearchParams({ q })}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Ticker search failed");
+      return api.tickers.search.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function usePeerGroups() {
+  return useQuery({
+    queryKey: [api.peerGroups.list.path],
+    queryFn: async () => {
+      const res = await fetch(api.peerGroups.list.path, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to load peer groups");
+      return api.peerGroups.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+export function useCreatePeerGroup() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: PeerGroupInput) => {
+      const res = await fetch(api.peerGroups.create.path, {
+        method: api.peerGroups.create.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(api.peerGroups.create.input.parse(data)),
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to save peer group");
+      }
+      return api.peerGroups.create.responses[201].parse(await res.json());
+    },
+    onSuccess: (group) => {
+      queryClient.invalidateQueries({ queryKey: [api.peerGroups.list.path] });
+      toast({ title: "Peer group saved", description: `${group.name} · ${group.tickers.length} tickers` });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Could not save peer group", description: error.message });
+    },
+  });
+}
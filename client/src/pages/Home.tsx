@@ -3,20 +3,23 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format, subYears, startOfDay } from "date-fns";
-import { CalendarIcon, Loader2, Search, TrendingUp, TrendingDown } from "lucide-react";
+import { CalendarIcon, Loader2, TrendingUp, TrendingDown } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useQuery } from "@tanstack/react-query";
+import type { PeerFilters } from "@shared/schema";
 
-import { useCalculateBeta } from "@/hooks/use-beta";
+import { useBenchmarks, useCalculateBeta, usePeerGroups } from "@/hooks/use-beta";
 import { ResultsSection } from "@/components/ResultsSection";
+import { TickerCombobox } from "@/components/TickerCombobox";
 import { WorldMap } from "@/components/WorldMap";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
 
 interface IndexData { price: number; change: number; changePercent: number; }
@@ -26,14 +29,53 @@ interface MarketOverview {
   news: NewsItem[];
 }
 
+// Market-cap band as "min-max" multiples of the target, e.g. "0.2-5"
+function parseCapBand(value: string): { min: number; max: number } | null {
+  const match = value.trim().match(/^(\d*\.?\d+)\s*[-–]\s*(\d*\.?\d+)$/);
+  return match ? { min: Number(match[1]), max: Number(match[2]) } : null;
+}
+
 const formSchema = z.object({
   ticker: z.string().min(1, "Ticker is required"),
   exchange: z.enum(["NSE", "BSE"]),
+  benchmark: z.string(),
+  peerGroup: z.string(),
   period: z.enum(["1Y", "3Y", "5Y"]),
+  frequency: z.enum(["daily", "weekly", "monthly"]),
+  betaMethod: z.enum(["ols", "dimson", "scholesWilliams"]),
+  useAdjustedPrices: z.boolean(),
+  dropSuspiciousReturns: z.boolean(),
+  preferExchangeBars: z.boolean(),
+  taxRate: z.string().refine(v => v !== "" && Number(v) >= 0 && Number(v) <= 100, "0–100"),
+  targetDebtToEquity: z.string().refine(v => v === "" || Number(v) >= 0, "Must be ≥ 0"),
+  capBand: z.string().refine(v => {
+    const band = parseCapBand(v);
+    return v.trim() === "" || (!!band && band.min > 0 && band.min <= band.max);
+  }, "e.g. 0.2-5"),
+  minTradedValue: z.string().refine(v => v === "" || Number(v) >= 0, "Must be ≥ 0"),
+  minRSquared: z.string().refine(v => v === "" || (Number(v) >= 0 && Number(v) <= 1), "0–1"),
+  minDataPoints: z.string().refine(v => v === "" || (Number.isInteger(Number(v)) && Number(v) >= 2), "≥ 2"),
+  maxPeers: z.string().refine(v => v === "" || (Number.isInteger(Number(v)) && Number(v) >= 1 && Number(v) <= 20), "1–20"),
+  riskFreeSource: z.enum(["none", "constant", "tbill"]),
+  riskFreeRate: z.string(),
   endDate: z.date(),
+}).refine(v => v.riskFreeSource !== "constant" || (v.riskFreeRate !== "" && Number(v.riskFreeRate) >= -5 && Number(v.riskFreeRate) <= 50), {
+  message: "−5–50", path: ["riskFreeRate"],
 });
 type FormValues = z.infer<typeof formSchema>;
 
+function peerFiltersFrom(values: FormValues): PeerFilters | undefined {
+  const num = (v: string) => v === "" ? undefined : Number(v);
+  const filters: PeerFilters = {
+    marketCapBand: parseCapBand(values.capBand) ?? undefined,
+    minAvgTradedValue: values.minTradedValue === "" ? undefined : Number(values.minTradedValue) * 1e7, // ₹ Cr
+    minRSquared: num(values.minRSquared),
+    minDataPoints: num(values.minDataPoints),
+    maxPeers: num(values.maxPeers),
+  };
+  return Object.values(filters).some(v => v !== undefined) ? filters : undefined;
+}
+
 function IndexBadge({ label, data }: { label: string; data: IndexData | null }) {
   if (!data) return (
     <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-white/4 border border-white/8">
@@ -153,6 +195,8 @@ export default function Home() {
   const [mapZoomed, setMapZoomed] = useState(false);
   const [companyName, setCompanyName] = useState<string>();
   const { mutate, isPending, data, error, reset: resetMutation } = useCalculateBeta();
+  const { data: benchmarks } = useBenchmarks();
+  const { data: peerGroups } = usePeerGroups();
 
   const { data: marketData } = useQuery<MarketOverview>({
     queryKey: ["market-overview"],
@@ -167,7 +211,7 @@ export default function Home() {
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: { ticker: "", exchange: "NSE", period: "5Y", endDate: new Date() },
+    defaultValues: { ticker: "", exchange: "NSE", benchmark: "auto", peerGroup: "auto", period: "5Y", frequency: "daily", betaMethod: "ols", useAdjustedPrices: true, dropSuspiciousReturns: false, preferExchangeBars: false, taxRate: "25", targetDebtToEquity: "", capBand: "", minTradedValue: "", minRSquared: "", minDataPoints: "", maxPeers: "", riskFreeSource: "none", riskFreeRate: "7", endDate: new Date() },
   });
 
   const onSubmit = (values: FormValues) => {
@@ -177,7 +221,20 @@ export default function Home() {
     const end = startOfDay(values.endDate);
     const start = subYears(end, parseInt(values.period[0]));
     mutate(
-      { ticker: values.ticker.toUpperCase(), exchange: values.exchange, period: values.period, startDate: start.toISOString(), endDate: end.toISOString() },
+      {
+        ticker: values.ticker.toUpperCase(), exchange: values.exchange,
+        benchmark: values.benchmark === "auto" ? undefined : values.benchmark, period: values.period,
+        frequency: values.frequency, betaMethod: values.betaMethod,
+        useAdjustedPrices: values.useAdjustedPrices, dropSuspiciousReturns: values.dropSuspiciousReturns,
+        preferExchangeBars: values.preferExchangeBars,
+        peerGroupId: values.peerGroup === "auto" ? undefined : Number(values.peerGroup),
+        peerFilters: peerFiltersFrom(values),
+        taxRate: Number(values.taxRate) / 100,
+        targetDebtToEquity: values.targetDebtToEquity === "" ? undefined : Number(values.targetDebtToEquity) / 100,
+        riskFreeSource: values.riskFreeSource,
+        riskFreeRate: values.riskFreeSource === "constant" ? Number(values.riskFreeRate) / 100 : undefined,
+        startDate: start.toISOString(), endDate: end.toISOString(),
+      },
       { onSuccess: (result) => { setCompanyName((result as any).name || values.ticker); setHasAnalyzed(true); } }
     );
   };
@@ -253,10 +310,13 @@ export default function Home() {
                       <FormItem className="min-w-[140px] flex-1 space-y-1">
                         <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Stock Ticker</FormLabel>
                         <FormControl>
-                          <div className="relative">
-                            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3 w-3 text-white/20" />
-                            <Input placeholder="RELIANCE" className="pl-7 h-8 font-mono text-sm uppercase bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0 transition-all" {...field} />
-                          </div>
+                          <TickerCombobox
+                            value={field.value}
+                            onChange={field.onChange}
+                            onBlur={field.onBlur}
+                            onSelect={r => { field.onChange(r.symbol); form.setValue("exchange", r.exchange); }}
+                            placeholder="RELIANCE"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -265,7 +325,7 @@ export default function Home() {
                     <FormField control={form.control} name="exchange" render={({ field }) => (
                       <FormItem className="min-w-[95px] space-y-1">
                         <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Exchange</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:ring-0 focus:border-primary/50">
                               <SelectValue />
@@ -279,6 +339,51 @@ export default function Home() {
                       </FormItem>
                     )} />
 
+                    <FormField control={form.control} name="benchmark" render={({ field }) => (
+                      <FormItem className="min-w-[150px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Benchmark</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:ring-0 focus:border-primary/50">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="auto" className="font-mono">Exchange default</SelectItem>
+                            {(["Broad", "Size", "Sector"] as const).map(category => {
+                              const items = (benchmarks ?? []).filter(b => b.category === category);
+                              if (!items.length) return null;
+                              return (
+                                <SelectGroup key={category}>
+                                  <SelectLabel className="text-[8px] font-mono uppercase tracking-widest text-white/30">{category}</SelectLabel>
+                                  {items.map(b => <SelectItem key={b.id} value={b.id} className="font-mono">{b.name}</SelectItem>)}
+                                </SelectGroup>
+                              );
+                            })}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="peerGroup" render={({ field }) => (
+                      <FormItem className="min-w-[150px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Peers</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:ring-0 focus:border-primary/50">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="auto" className="font-mono">Discover automatically</SelectItem>
+                            {(peerGroups ?? []).map(g => (
+                              <SelectItem key={g.id} value={String(g.id)} className="font-mono">{g.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+
                     <FormField control={form.control} name="period" render={({ field }) => (
                       <FormItem className="min-w-[125px] space-y-1">
                         <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Period</FormLabel>
@@ -289,14 +394,177 @@ export default function Home() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="1Y" className="font-mono">1 Year Daily</SelectItem>
-                            <SelectItem value="3Y" className="font-mono">3 Year Daily</SelectItem>
-                            <SelectItem value="5Y" className="font-mono">5 Year Daily</SelectItem>
+                            <SelectItem value="1Y" className="font-mono">1 Year</SelectItem>
+                            <SelectItem value="3Y" className="font-mono">3 Year</SelectItem>
+                            <SelectItem value="5Y" className="font-mono">5 Year</SelectItem>
                           </SelectContent>
                         </Select>
                       </FormItem>
                     )} />
 
+                    <FormField control={form.control} name="frequency" render={({ field }) => (
+                      <FormItem className="min-w-[110px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Frequency</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:ring-0 focus:border-primary/50">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="daily" className="font-mono">Daily</SelectItem>
+                            <SelectItem value="weekly" className="font-mono">Weekly</SelectItem>
+                            <SelectItem value="monthly" className="font-mono">Monthly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="betaMethod" render={({ field }) => (
+                      <FormItem className="min-w-[150px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Beta Method</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:ring-0 focus:border-primary/50">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="ols" className="font-mono">OLS</SelectItem>
+                            <SelectItem value="dimson" className="font-mono">Dimson</SelectItem>
+                            <SelectItem value="scholesWilliams" className="font-mono">Scholes–Williams</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+
+                    <div className="flex flex-col gap-1.5 pb-0.5">
+                      <FormField control={form.control} name="useAdjustedPrices" render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} className="scale-75" />
+                          </FormControl>
+                          <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Adjusted prices</FormLabel>
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="dropSuspiciousReturns" render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} className="scale-75" />
+                          </FormControl>
+                          <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Drop action gaps</FormLabel>
+                        </FormItem>
+                      )} />
+                      <FormField control={form.control} name="preferExchangeBars" render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} className="scale-75" />
+                          </FormControl>
+                          <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Exchange bars</FormLabel>
+                        </FormItem>
+                      )} />
+                    </div>
+
+                    <FormField control={form.control} name="taxRate" render={({ field }) => (
+                      <FormItem className="w-[80px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Tax %</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" min={0} max={100} className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="targetDebtToEquity" render={({ field }) => (
+                      <FormItem className="w-[100px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Target D/E %</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.1" min={0} placeholder="—" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="capBand" render={({ field }) => (
+                      <FormItem className="w-[90px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Cap band ×</FormLabel>
+                        <FormControl>
+                          <Input type="text" placeholder="0.2-5" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="minTradedValue" render={({ field }) => (
+                      <FormItem className="w-[100px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Min ADTV ₹Cr</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.1" min={0} placeholder="—" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="minRSquared" render={({ field }) => (
+                      <FormItem className="w-[80px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Min R²</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" min={0} max={1} placeholder="—" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="minDataPoints" render={({ field }) => (
+                      <FormItem className="w-[80px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Min Obs</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="1" min={2} placeholder="—" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="maxPeers" render={({ field }) => (
+                      <FormItem className="w-[80px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Max Peers</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="1" min={1} max={20} placeholder="10" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white placeholder:text-white/15 focus:border-primary/50 focus-visible:ring-0" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+
+                    <FormField control={form.control} name="riskFreeSource" render={({ field }) => (
+                      <FormItem className="min-w-[120px] space-y-1">
+                        <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Risk-Free</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:ring-0 focus:border-primary/50">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="none" className="font-mono">None</SelectItem>
+                            <SelectItem value="constant" className="font-mono">Constant</SelectItem>
+                            <SelectItem value="tbill" className="font-mono">T-Bill File</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+
+                    {form.watch("riskFreeSource") === "constant" && (
+                      <FormField control={form.control} name="riskFreeRate" render={({ field }) => (
+                        <FormItem className="w-[80px] space-y-1">
+                          <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">Rf %</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.01" className="h-8 font-mono text-sm bg-white/5 border-white/10 text-white focus:border-primary/50 focus-visible:ring-0" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )} />
+                    )}
+
                     <FormField control={form.control} name="endDate" render={({ field }) => (
                       <FormItem className="min-w-[145px] flex-1 space-y-1">
                         <FormLabel className="text-[9px] font-mono uppercase tracking-[0.18em] text-white/25">End Date</FormLabel>
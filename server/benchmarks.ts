@@ -0,0 +1,30 @@
+import type { Benchmark } from "@shared/schema";
+
+// Indices the beta regression can run against, keyed by a stable id used in requests.
+// Symbols are Yahoo Finance tickers.
+export const BENCHMARKS: Benchmark[] = [
+  { id: "nifty50", name: "NIFTY 50", symbol: "^NSEI", exchange: "NSE", category: "Broad" },
+  { id: "sensex", name: "BSE SENSEX", symbol: "^BSESN", exchange: "BSE", category: "Broad" },
+  { id: "nifty500", name: "NIFTY 500", symbol: "^CRSLDX", exchange: "NSE", category: "Broad" },
+  { id: "bse500", name: "BSE 500", symbol: "BSE-500.BO", exchange: "BSE", category: "Broad" },
+  { id: "niftyNext50", name: "NIFTY NEXT 50", symbol: "^NSMIDCP", exchange: "NSE", category: "Size" },
+  { id: "niftyMidcap150", name: "NIFTY MIDCAP 150", symbol: "NIFTYMIDCAP150.NS", exchange: "NSE", category: "Size" },
+  { id: "niftySmallcap250", name: "NIFTY SMALLCAP 250", symbol: "NIFTYSMLCAP250.NS", exchange: "NSE", category: "Size" },
+  { id: "niftyBank", name: "NIFTY BANK", symbol: "^NSEBANK", exchange: "NSE", category: "Sector" },
+  { id: "niftyIt", name: "NIFTY IT", symbol: "^CNXIT", exchange: "NSE", category: "Sector" },
+  { id: "niftyPharma", name: "NIFTY PHARMA", symbol: "^CNXPHARMA", exchange: "NSE", category: "Sector" },
+  { id: "niftyFmcg", name: "NIFTY FMCG", symbol: "^CNXFMCG", exchange: "NSE", category: "Sector" },
+  { id: "niftyAuto", name: "NIFTY AUTO", symbol: "^CNXAUTO", exchange: "NSE", category: "Sector" },
+  { id: "niftyMetal", name: "NIFTY METAL", symbol: "^CNXMETAL", exchange: "NSE", category: "Sector" },
+  { id: "niftyEnergy", name: "NIFTY ENERGY", symbol: "^CNXENERGY", exchange: "NSE", category: "Sector" },
+  { id: "niftyRealty", name: "NIFTY REALTY", symbol: "^CNXREALTY", exchange: "NSE", category: "Sector" },
+];
+
+export function getBenchmark(id: string): Benchmark | undefined {
+  return BENCHMARKS.find(b => b.id === id);
+}
+
+// The exchange's headline index, used when a request does not pick a benchmark
+export function defaultBenchmark(exchange: "NSE" | "BSE"): Benchmark {
+  return getBenchmark(exchange === "NSE" ? "nifty50" : "sensex")!;
+}
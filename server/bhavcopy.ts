@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import path from 'path';
+import type { BhavcopyImportResult, InsertPriceBar } from "@shared/schema";
+import { storage } from "./storage";
+
+// Directory of end-of-day bhavcopy CSVs downloaded from NSE and BSE. Override with BHAVCOPY_DIR.
+export const BHAVCOPY_DIR = process.env.BHAVCOPY_DIR || path.resolve(process.cwd(), 'attached_assets', 'bhavcopy');
+
+type Exchange = 'nse' | 'bse';
+
+// Equity series; the rest (bonds, warrants, ETFs under other codes) are ignored.
+// EQ wins when a symbol trades in more than one of these on the same day.
+const EQUITY_SERIES = ['EQ', 'BE', 'BZ', 'SM', 'ST', 'A', 'B', 'T', 'X', 'XT', 'Z', 'M', 'MT', 'P', 'MS'];
+
+interface ParsedFile {
+  exchange: Exchange;
+  bars: InsertPriceBar[];
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Bhavcopies use YYYY-MM-DD (UDiFF), DD-MMM-YYYY (NSE legacy) or DD-MMM-YY / DD/MM/YYYY (BSE)
+function parseTradeDate(raw: string): string | null {
+  const value = raw.trim();
+  const pad = (n: string | number) => String(n).padStart(2, '0');
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+  const dMonY = value.match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2}|\d{4})$/);
+  if (dMonY) {
+    const month = MONTHS.indexOf(dMonY[2].toUpperCase());
+    if (month === -1) return null;
+    const year = dMonY[3].length === 2 ? `20${dMonY[3]}` : dMonY[3];
+    return `${year}-${pad(month + 1)}-${pad(dMonY[1])}`;
+  }
+  const dmy = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (dmy) return `${dmy[3]}-${pad(dmy[2])}-${pad(dmy[1])}`;
+  return null;
+}
+
+const num = (raw: string | undefined) => {
+  const n = parseFloat((raw || '').replace(/,/g, ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+// Column names per layout, in the order: symbol, series, open, high, low, close, volume, traded value, ISIN, date
+const LAYOUTS: { exchange: Exchange; marker: string; columns: string[] }[] = [
+  // CM UDiFF (NSE and BSE from July 2024); the Src column says which exchange
+  { exchange: 'nse', marker: 'TCKRSYMB', columns: ['TCKRSYMB', 'SCTYSRS', 'OPNPRIC', 'HGHPRIC', 'LWPRIC', 'CLSPRIC', 'TTLTRADGVOL', 'TTLTRFVAL', 'ISIN', 'TRADDT'] },
+  // NSE legacy cmDDMMMYYYYbhav.csv
+  { exchange: 'nse', marker: 'TOTTRDQTY', columns: ['SYMBOL', 'SERIES', 'OPEN', 'HIGH', 'LOW', 'CLOSE', 'TOTTRDQTY', 'TOTTRDVAL', 'ISIN', 'TIMESTAMP'] },
+  // BSE legacy EQ_ISINCODE_DDMMYY.csv; scrip codes map to Yahoo's numeric tickers (500325.BO)
+  { exchange: 'bse', marker: 'SC_CODE', columns: ['SC_CODE', 'SC_GROUP', 'OPEN', 'HIGH', 'LOW', 'CLOSE', 'NO_OF_SHRS', 'NET_TURNOV', 'ISIN_CODE', 'TRADING_DATE'] },
+];
+
+function parseBhavcopy(text: string): ParsedFile | null {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  if (lines.length < 2) return null;
+  const headers = lines[0].split(',').map(h => h.trim().toUpperCase());
+  const layout = LAYOUTS.find(l => headers.includes(l.marker));
+  if (!layout) return null;
+  const idx = layout.columns.map(c => headers.indexOf(c));
+  const [symbolCol, seriesCol, openCol, highCol, lowCol, closeCol, volumeCol, valueCol, isinCol, dateCol] = idx;
+  if (symbolCol === -1 || closeCol === -1 || dateCol === -1) return null;
+
+  const srcCol = headers.indexOf('SRC');
+  const exchange: Exchange = srcCol !== -1 && lines[1].split(',')[srcCol]?.trim().toUpperCase() === 'BSE' ? 'bse' : layout.exchange;
+  const suffix = exchange === 'nse' ? '.NS' : '.BO';
+  const bySymbol = new Map<string, InsertPriceBar>();
+  for (const line of lines.slice(1)) {
+    const cells = line.split(',').map(c => c.trim());
+    const series = seriesCol === -1 ? null : cells[seriesCol]?.toUpperCase() || null;
+    if (series && !EQUITY_SERIES.includes(series)) continue;
+    const date = parseTradeDate(cells[dateCol] || '');
+    const close = num(cells[closeCol]);
+    if (!date || !cells[symbolCol] || close === null || close <= 0) continue;
+
+    const symbol = `${cells[symbolCol].toUpperCase()}${suffix}`;
+    const key = `${symbol}|${date}`;
+    if (bySymbol.get(key)?.series === 'EQ') continue;
+    bySymbol.set(key, {
+      symbol,
+      date,
+      source: exchange,
+      open: num(cells[openCol]),
+      high: num(cells[highCol]),
+      low: num(cells[lowCol]),
+      close,
+      // Bhavcopy closes are unadjusted; corporate actions are left to the Yahoo series
+      adjClose: null,
+      volume: num(cells[volumeCol]),
+      series,
+      isin: isinCol === -1 ? null : cells[isinCol] || null,
+      tradedValue: num(cells[valueCol]),
+    });
+  }
+  return { exchange, bars: Array.from(bySymbol.values()) };
+}
+
+// Load every bhavcopy CSV in the directory into the price cache. Each (exchange, trade date)
+// is loaded once; files for dates already imported are skipped unless `force` is set.
+export async function importBhavcopies(options: { force: boolean }, directory = BHAVCOPY_DIR): Promise<BhavcopyImportResult> {
+  const result: BhavcopyImportResult = { directory, loaded: [], skipped: [] };
+  if (!fs.existsSync(directory)) return result;
+
+  const files = fs.readdirSync(directory).sort();
+  for (const file of files) {
+    if (!/\.csv$/i.test(file)) {
+      result.skipped.push({ file, reason: /\.zip$/i.test(file) ? 'Zipped bhavcopy; extract the CSV first' : 'Not a CSV file' });
+      continue;
+    }
+    const parsed = parseBhavcopy(fs.readFileSync(path.join(directory, file), 'utf-8'));
+    if (!parsed || parsed.bars.length === 0) {
+      result.skipped.push({ file, reason: 'Not a recognised NSE or BSE bhavcopy, or no equity rows' });
+      continue;
+    }
+
+    // Normally one trade date per file, but group in case of concatenated exports
+    const byDate = new Map<string, InsertPriceBar[]>();
+    for (const bar of parsed.bars) {
+      if (!byDate.has(bar.date)) byDate.set(bar.date, []);
+      byDate.get(bar.date)!.push(bar);
+    }
+    for (const [date, bars] of Array.from(byDate).sort(([a], [b]) => a.localeCompare(b))) {
+      const previous = await storage.getBhavcopyImport(parsed.exchange, date);
+      if (previous && !options.force) {
+        result.skipped.push({ file, exchange: parsed.exchange, date, reason: `Already imported from ${previous.fileName}` });
+        continue;
+      }
+      await storage.upsertPriceBars(bars);
+      await storage.recordBhavcopyImport({ exchange: parsed.exchange, tradeDate: date, fileName: file, rows: bars.length });
+      result.loaded.push({ exchange: parsed.exchange, date, file, rows: bars.length });
+    }
+  }
+  return result;
+}
+
+// Exchange whose bhavcopy covers a Yahoo ticker, if any
+export function exchangeForTicker(ticker: string): Exchange | null {
+  if (ticker.endsWith('.NS')) return 'nse';
+  if (ticker.endsWith('.BO')) return 'bse';
+  return null;
+}
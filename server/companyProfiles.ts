@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import path from 'path';
+import type { InsertCompanyProfile } from "@shared/schema";
+import { storage } from "./storage";
+
+// Similarity profiles are built offline by `npm run precompute` and shared with the server
+// through this file. Override the location with COMPANY_PROFILES_PATH.
+export const COMPANY_PROFILES_PATH = process.env.COMPANY_PROFILES_PATH || path.resolve(process.cwd(), 'attached_assets', 'company_profiles.json');
+
+let loadedMtimeMs: number | null = null;
+
+function readProfileFile(): InsertCompanyProfile[] {
+  if (!fs.existsSync(COMPANY_PROFILES_PATH)) return [];
+  const parsed = JSON.parse(fs.readFileSync(COMPANY_PROFILES_PATH, 'utf-8'));
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+// Copy the profile file into storage, again whenever precompute has rewritten it
+export async function loadCompanyProfiles(): Promise<void> {
+  try {
+    if (!fs.existsSync(COMPANY_PROFILES_PATH)) return;
+    const { mtimeMs } = fs.statSync(COMPANY_PROFILES_PATH);
+    if (loadedMtimeMs === mtimeMs) return;
+    loadedMtimeMs = mtimeMs;
+    const profiles = readProfileFile();
+    for (const profile of profiles) await storage.upsertCompanyProfile(profile);
+    console.log(`Company profiles: ${profiles.length} loaded from ${path.basename(COMPANY_PROFILES_PATH)}`);
+  } catch (error) {
+    console.error("Error loading company profiles:", error);
+  }
+}
+
+// Add or replace profiles in the file, keyed by ticker
+export function saveCompanyProfiles(profiles: InsertCompanyProfile[]): void {
+  const byTicker = new Map(readProfileFile().map(p => [p.ticker, p]));
+  profiles.forEach(p => byTicker.set(p.ticker, p));
+  fs.mkdirSync(path.dirname(COMPANY_PROFILES_PATH), { recursive: true });
+  fs.writeFileSync(COMPANY_PROFILES_PATH, JSON.stringify(Array.from(byTicker.values())));
+}
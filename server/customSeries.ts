@@ -0,0 +1,174 @@
+import ExcelJS from 'exceljs';
+import { CUSTOM_SYMBOL_PREFIX, type CustomSeries, type CustomSeriesInfo, type InsertPriceBar } from "@shared/schema";
+import { storage } from "./storage";
+
+// Rejections the uploader can fix (bad symbol, unreadable file); reported as 400s
+export class SeriesUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SeriesUploadError";
+  }
+}
+
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9_-]{0,31}$/;
+
+// Accepts "MYFUND" or "CUSTOM:MYFUND" and returns the prefixed, upper-cased symbol
+export function customSymbol(raw: string): string {
+  const base = raw.trim().toUpperCase().replace(/^CUSTOM:/, '');
+  if (!SYMBOL_PATTERN.test(base)) {
+    throw new SeriesUploadError("Symbol must be 1-32 letters, digits, '-' or '_', starting with a letter or digit.");
+  }
+  return `${CUSTOM_SYMBOL_PREFIX}${base}`;
+}
+
+export function isCustomSymbol(symbol: string): boolean {
+  return symbol.toUpperCase().startsWith(CUSTOM_SYMBOL_PREFIX);
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Parsed explicitly rather than with new Date(string), which reads most of these as local time
+function parseDateCell(value: unknown): string | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().split('T')[0];
+  if (typeof value === 'number') {
+    // Excel serial day number (1900 date system)
+    if (value < 20000 || value > 80000) return null;
+    return new Date(Date.UTC(1899, 11, 30) + Math.round(value) * 86400000).toISOString().split('T')[0];
+  }
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const pad = (n: string | number) => String(n).padStart(2, '0');
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return `${iso[1]}-${pad(iso[2])}-${pad(iso[3])}`;
+  // DD-MM-YYYY / DD/MM/YYYY, the usual Indian ordering
+  const dmy = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dmy) return `${dmy[3]}-${pad(dmy[2])}-${pad(dmy[1])}`;
+  // DD-MMM-YYYY, as in AMFI NAV history files
+  const dMonY = text.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[A-Za-z]*[-/ ](\d{4})$/);
+  if (dMonY) {
+    const month = MONTHS.indexOf(dMonY[2].toLowerCase());
+    if (month !== -1) return `${dMonY[3]}-${pad(month + 1)}-${pad(dMonY[1])}`;
+  }
+  return null;
+}
+
+// Number text in the file's convention: "1,234.50" normally, "1.234,50" in semicolon-delimited
+// CSVs, which come from locales where the comma is the decimal separator
+function parseNumberText(value: string, decimalComma: boolean): number {
+  const text = value.replace(/[₹\s"]/g, '');
+  if (!decimalComma) return parseFloat(text.replace(/,/g, ''));
+  if (text.includes(',')) return parseFloat(text.replace(/\./g, '').replace(',', '.'));
+  // "1.234" could be either 1234 or 1.234; leave the row out rather than guess
+  if (/^\d{1,3}(\.\d{3})+$/.test(text)) return NaN;
+  return parseFloat(text);
+}
+
+function parsePriceCell(value: unknown, decimalComma: boolean): number | null {
+  const n = typeof value === 'number' ? value : typeof value === 'string' ? parseNumberText(value, decimalComma) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// Unwrap ExcelJS formula, hyperlink and rich-text cells to their displayed value
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    if ('result' in value) return value.result;
+    if ('richText' in value) return value.richText.map(r => r.text).join('');
+    if ('text' in value) return value.text;
+  }
+  return value;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === delimiter && !quoted) { cells.push(current); current = ''; }
+    else current += ch;
+  }
+  cells.push(current);
+  return cells.map(c => c.trim());
+}
+
+async function readRows(body: Buffer): Promise<{ rows: unknown[][]; decimalComma: boolean }> {
+  // XLSX files are zip archives
+  if (body.length > 4 && body.readUInt32LE(0) === 0x04034b50) {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(body);
+    } catch {
+      throw new SeriesUploadError("The file looks like an XLSX workbook but could not be read.");
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new SeriesUploadError("The workbook has no worksheets.");
+    const rows: unknown[][] = [];
+    sheet.eachRow(row => {
+      const values = row.values as ExcelJS.CellValue[];
+      rows.push(values.slice(1).map(cellValue)); // row.values is 1-based
+    });
+    return { rows, decimalComma: false };
+  }
+
+  const lines = body.toString('utf-8').replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return { rows: [], decimalComma: false };
+  const delimiter = [',', ';', '\t'].reduce((best, d) => lines[0].split(d).length > lines[0].split(best).length ? d : best, ',');
+  return { rows: lines.map(line => splitCsvLine(line, delimiter)), decimalComma: delimiter === ';' };
+}
+
+// Column preference when a header row names several price-like columns
+const PRICE_HEADERS = [/adj\.?\s*close/, /close/, /nav/, /price/, /value/];
+
+// Parse a CSV or XLSX of dates and prices (or NAVs) into one close per date, oldest first
+export async function parseSeriesUpload(body: Buffer): Promise<{ bars: { date: string; close: number }[]; skippedRows: number }> {
+  if (!body || body.length === 0) throw new SeriesUploadError("The upload is empty.");
+  const { rows, decimalComma } = await readRows(body);
+
+  const headerIdx = rows.findIndex(r => r.some(c => typeof c === 'string' && /date/i.test(c)));
+  let dateCol = 0;
+  let priceCol = 1;
+  let dataRows = rows;
+  if (headerIdx !== -1) {
+    const headers = rows[headerIdx].map(c => String(c ?? '').toLowerCase());
+    dateCol = headers.findIndex(h => h.includes('date'));
+    const match = PRICE_HEADERS.map(re => headers.findIndex(h => re.test(h))).find(i => i !== -1);
+    if (match === undefined) throw new SeriesUploadError("No close, NAV, price or value column found next to the date column.");
+    priceCol = match;
+    dataRows = rows.slice(headerIdx + 1);
+  }
+
+  const byDate = new Map<string, number>();
+  let skippedRows = 0;
+  for (const row of dataRows) {
+    const date = parseDateCell(row[dateCol]);
+    const close = parsePriceCell(row[priceCol], decimalComma);
+    if (!date || close === null) { skippedRows++; continue; }
+    byDate.set(date, close);
+  }
+
+  const bars = Array.from(byDate, ([date, close]) => ({ date, close })).sort((a, b) => a.date.localeCompare(b.date));
+  if (bars.length < 2) throw new SeriesUploadError("Need at least two dated prices; check the date and price columns.");
+  return { bars, skippedRows };
+}
+
+export async function customSeriesInfo(series: CustomSeries): Promise<CustomSeriesInfo> {
+  const bars = await storage.getPriceBars(series.symbol);
+  return {
+    symbol: series.symbol,
+    name: series.name,
+    fileName: series.fileName,
+    uploadedAt: series.uploadedAt.toISOString(),
+    bars: bars.length,
+    firstDate: bars[0]?.date ?? null,
+    lastDate: bars[bars.length - 1]?.date ?? null,
+  };
+}
+
+export async function saveCustomSeriesUpload(rawSymbol: string, body: Buffer, name?: string, fileName?: string): Promise<CustomSeriesInfo> {
+  const symbol = customSymbol(rawSymbol);
+  const { bars, skippedRows } = await parseSeriesUpload(body);
+  const priceBars: InsertPriceBar[] = bars.map(b => ({ symbol, date: b.date, close: b.close, source: "custom" }));
+  const saved = await storage.saveCustomSeries({ symbol, name: name || symbol.slice(CUSTOM_SYMBOL_PREFIX.length), fileName }, priceBars);
+  return { ...(await customSeriesInfo(saved)), skippedRows };
+}
@@ -0,0 +1,22 @@
+import { FUNDAMENTAL_METRICS, type FundamentalHistory, type FundamentalMetric } from "@shared/schema";
+import { storage } from "./storage";
+
+type Fundamentals = { ticker: string } & { [M in FundamentalMetric]?: number | null };
+
+// Store today's fundamentals for each company in an analysis. Missing figures are skipped
+// rather than stored as gaps; peers default an unknown market cap to 0, so that counts as missing.
+export async function recordFundamentals(companies: Fundamentals[], date = new Date()): Promise<void> {
+  const snapshotDate = date.toISOString().split('T')[0];
+  const rows = companies.flatMap(company => FUNDAMENTAL_METRICS.flatMap(metric => {
+    const value = company[metric];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return [];
+    if (metric === 'marketCap' && value <= 0) return [];
+    return [{ ticker: company.ticker, snapshotDate, metric, value }];
+  }));
+  await storage.upsertFundamentalSnapshots(rows);
+}
+
+export async function fundamentalHistory(ticker: string, metric: FundamentalMetric, from?: string, to?: string): Promise<FundamentalHistory> {
+  const rows = await storage.getFundamentalHistory(ticker, metric, from, to);
+  return { ticker, metric, points: rows.map(r => ({ date: r.snapshotDate, value: r.value })) };
+}
@@ -0,0 +1,56 @@
+import type { FxRate } from "@shared/schema";
+import { dataProvider } from "./marketData";
+import { fetchHistoricalData } from "./priceCache";
+
+// Yahoo pairs quote INR per unit of the foreign currency, e.g. USDINR=X, EURINR=X
+const pairSymbol = (currency: string) => `${currency.toUpperCase()}INR=X`;
+
+const toDateKey = (d: Date) => d.toISOString().split('T')[0];
+
+// FX markets close over weekends and holidays; look this far back for the last fixing
+const LOOKBACK_DAYS = 10;
+
+// Spot quotes are shared by every figure in an analysis; reuse them briefly
+const SPOT_TTL_MS = 60 * 1000;
+const spotCache = new Map<string, { at: number; rate: FxRate | null }>();
+
+const identity = (date: string): FxRate => ({ currency: 'INR', rate: 1, date, source: 'identity' });
+
+// INR per unit of `currency` on the last trading day on or before `date`. Daily rates come
+// from the price cache, so each pair's history is fetched once and stored with other bars.
+export async function historicalInrRate(currency: string, date: Date): Promise<FxRate | null> {
+  if (currency.toUpperCase() === 'INR') return identity(toDateKey(date));
+  const from = new Date(date);
+  from.setUTCDate(from.getUTCDate() - LOOKBACK_DAYS);
+  const bars = await fetchHistoricalData(pairSymbol(currency), from.toISOString(), date.toISOString());
+  const last = bars?.filter(b => b.close > 0).pop();
+  if (!last) return null;
+  return { currency: currency.toUpperCase(), rate: last.close, date: toDateKey(last.date), source: 'historical' };
+}
+
+// Latest INR rate, for price-based figures such as market cap. Falls back to the most
+// recent cached daily close when the live quote is unavailable.
+export async function spotInrRate(currency: string): Promise<FxRate | null> {
+  const today = new Date();
+  if (currency.toUpperCase() === 'INR') return identity(toDateKey(today));
+  const key = currency.toUpperCase();
+  const cached = spotCache.get(key);
+  if (cached && Date.now() - cached.at < SPOT_TTL_MS) return cached.rate;
+
+  const quote = await dataProvider.quote(pairSymbol(key)).catch(() => null);
+  const rate: FxRate | null = quote?.regularMarketPrice
+    ? { currency: key, rate: quote.regularMarketPrice, date: toDateKey(quote.regularMarketTime ?? today), source: 'live' }
+    : await historicalInrRate(key, today);
+  spotCache.set(key, { at: Date.now(), rate });
+  return rate;
+}
+
+// Date the TTM financials were reported up to: the latest quarter end, else the fiscal year end
+export function reportingDate(stats: { mostRecentQuarter?: Date; lastFiscalYearEnd?: Date } | undefined): Date | null {
+  return stats?.mostRecentQuarter ?? stats?.lastFiscalYearEnd ?? null;
+}
+
+// Rate for figures reported up to `date`; the spot rate when the date or its history is unavailable
+export async function reportingInrRate(currency: string, date: Date | null): Promise<FxRate | null> {
+  return (date && await historicalInrRate(currency, date)) || spotInrRate(currency);
+}
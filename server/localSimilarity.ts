@@ -0,0 +1,101 @@
+import type { SimilarityBackend } from "./similarity";
+
+// Offline profiles: TF-IDF over words and word pairs of the business summary. Terms are hashed
+// into a fixed number of buckets so the vector fits the company_profiles embedding column.
+const DIMENSIONS = 2048;
+const KEYWORD_COUNT = 5;
+
+// English function words plus the boilerplate every Yahoo business summary shares
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "its", "are", "was", "were", "has", "have", "had", "been", "from", "into", "that",
+  "this", "these", "those", "which", "who", "whom", "their", "they", "other", "such", "also", "well", "various",
+  "through", "under", "over", "across", "along", "among", "both", "each", "all", "any", "not", "but", "can", "may",
+  "including", "includes", "include", "offers", "offer", "provides", "provide", "engages", "engaged", "operates",
+  "operate", "operating", "segment", "segments", "company", "companies", "limited", "ltd", "inc", "incorporated",
+  "founded", "headquartered", "based", "india", "indian", "globally", "internationally", "worldwide", "country",
+  "countries", "subsidiary", "subsidiaries", "business", "businesses", "products", "services", "solutions",
+  "range", "known", "formerly", "changed", "name", "located", "together", "serves", "customers", "clients",
+  "principally", "primarily", "mainly", "group", "part", "activities", "addition", "related",
+]);
+
+// Crude plural folding so "banks" and "bank" share a term
+const stem = (word: string) => word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z]+/).filter(w => w.length >= 3 && !STOPWORDS.has(w)).map(stem);
+}
+
+// Words, and pairs of words adjacent once stopwords are removed ("private bank", "crude oil")
+function termCounts(text: string): Map<string, number> {
+  const words = tokenize(text);
+  const counts = new Map<string, number>();
+  const add = (term: string) => counts.set(term, (counts.get(term) ?? 0) + 1);
+  words.forEach((word, i) => {
+    add(word);
+    if (i > 0) add(`${words[i - 1]} ${word}`);
+  });
+  return counts;
+}
+
+// FNV-1a
+function bucket(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % DIMENSIONS;
+}
+
+// Stored vectors hold sublinear term frequencies only; IDF needs a corpus, which is the
+// target and its candidates at comparison time
+function termVector(counts: Map<string, number>): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  counts.forEach((count, term) => { vector[bucket(term)] += 1 + Math.log(count); });
+  return vector;
+}
+
+// Pairs that recur say more than single words; words already covered by a chosen pair are skipped
+function extractKeywords(counts: Map<string, number>): string[] {
+  const scored = Array.from(counts)
+    .filter(([term, count]) => !term.includes(" ") || count >= 2)
+    .map(([term, count]) => ({ term, score: count * (term.includes(" ") ? 1.5 : 1) }))
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+  const keywords: string[] = [];
+  for (const { term } of scored) {
+    if (keywords.length >= KEYWORD_COUNT) break;
+    const words = term.split(" ");
+    if (keywords.some(k => k.split(" ").some(w => words.includes(w)))) continue;
+    keywords.push(term);
+  }
+  return keywords;
+}
+
+function tfidf(vector: number[], idf: number[]): number[] {
+  const weighted = vector.map((v, i) => v * idf[i]);
+  const norm = Math.sqrt(weighted.reduce((sum, v) => sum + v * v, 0));
+  return norm ? weighted.map(v => v / norm) : weighted;
+}
+
+export const localBackend: SimilarityBackend = {
+  name: "local",
+  async describe(text) {
+    const counts = termCounts(text);
+    return { embedding: termVector(counts), keywords: extractKeywords(counts) };
+  },
+  similarities(target, candidates) {
+    const documents = [target, ...candidates].filter(d => d.length === DIMENSIONS);
+    const idf = new Array<number>(DIMENSIONS).fill(0).map((_, i) => {
+      const df = documents.filter(d => d[i] > 0).length;
+      return Math.log((documents.length + 1) / (df + 1)) + 1;
+    });
+    const weightedTarget = tfidf(target, idf);
+    return candidates.map(c => c.length === DIMENSIONS
+      ? tfidf(c, idf).reduce((dot, v, i) => dot + v * weightedTarget[i], 0)
+      : 0);
+  },
+  // Word-overlap similarity runs lower than embeddings: summaries of companies in the same
+  // line of business typically share 0.2–0.4, unrelated ones under 0.1
+  highSimilarity: 0.25,
+  minCrossIndustry: 0.3,
+};
@@ -0,0 +1,186 @@
+import YahooFinance from 'yahoo-finance2';
+import type { HistoricalHistoryResult } from 'yahoo-finance2/modules/historical';
+import type { Quote } from 'yahoo-finance2/modules/quote';
+import type { QuoteSummaryOptions, QuoteSummaryResult } from 'yahoo-finance2/modules/quoteSummary';
+import type { RecommendationsBySymbolResponse } from 'yahoo-finance2/modules/recommendationsBySymbol';
+import type { SearchOptions, SearchResult } from 'yahoo-finance2/modules/search';
+import * as fs from 'fs';
+import path from 'path';
+import { yahooScheduler } from './upstream';
+
+export interface HistoricalQuery {
+  period1: Date;
+  period2: Date;
+  interval: '1d' | '1wk' | '1mo';
+}
+
+// Everything the app reads from a market data vendor. Results use Yahoo's shapes, since
+// that is what the beta engine was written against.
+export interface MarketDataProvider {
+  readonly name: string;
+  historical(symbol: string, query: HistoricalQuery): Promise<HistoricalHistoryResult>;
+  quote(symbol: string): Promise<Quote | undefined>;
+  quoteSummary(symbol: string, options: QuoteSummaryOptions): Promise<QuoteSummaryResult>;
+  recommendationsBySymbol(symbol: string): Promise<RecommendationsBySymbolResponse>;
+  search(query: string, options?: SearchOptions): Promise<SearchResult>;
+}
+
+// Yahoo Finance blocks datacenter IPs (Railway, AWS etc.) without browser headers
+class YahooMarketData implements MarketDataProvider {
+  readonly name = 'yahoo';
+  private yf = new YahooFinance({
+    fetchOptions: {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept-Encoding': 'gzip, deflate, br',
+        'Connection': 'keep-alive',
+        'Cache-Control': 'max-age=0',
+      },
+    },
+    suppressNotices: ['yahooSurvey'],
+  });
+
+  // Every call goes through the shared scheduler; identical calls in flight are coalesced by key
+  historical(symbol: string, query: HistoricalQuery) {
+    const key = `historical:${symbol}:${query.period1.toISOString()}:${query.period2.toISOString()}:${query.interval}`;
+    return yahooScheduler.run(key, () => this.yf.historical(symbol, query));
+  }
+
+  quote(symbol: string) {
+    return yahooScheduler.run(`quote:${symbol}`, () => this.yf.quote(symbol));
+  }
+
+  quoteSummary(symbol: string, options: QuoteSummaryOptions) {
+    return yahooScheduler.run(`quoteSummary:${symbol}:${JSON.stringify(options)}`, () => this.yf.quoteSummary(symbol, options));
+  }
+
+  recommendationsBySymbol(symbol: string) {
+    return yahooScheduler.run(`recommendations:${symbol}`, () => this.yf.recommendationsBySymbol(symbol));
+  }
+
+  search(query: string, options?: SearchOptions) {
+    return yahooScheduler.run(`search:${query}:${JSON.stringify(options ?? {})}`, () => this.yf.search(query, options));
+  }
+}
+
+// Fixture layout: <dir>/<kind>/<encoded key>.json. Historical fixtures hold the full recorded
+// series and are filtered to the requested window; quoteSummary fixtures hold every recorded
+// module and return only those asked for.
+type FixtureKind = 'historical' | 'quote' | 'quoteSummary' | 'recommendations' | 'search';
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function fixturePath(dir: string, kind: FixtureKind, key: string) {
+  return path.join(dir, kind, `${encodeURIComponent(key)}.json`);
+}
+
+function readFixture<T>(dir: string, kind: FixtureKind, key: string): T | null {
+  const file = fixturePath(dir, kind, key);
+  if (!fs.existsSync(file)) return null;
+  // JSON loses Date instances; revive ISO timestamps so callers see what Yahoo returns
+  return JSON.parse(fs.readFileSync(file, 'utf-8'), (_k, v) => typeof v === 'string' && ISO_DATE_TIME.test(v) ? new Date(v) : v);
+}
+
+function writeFixture(dir: string, kind: FixtureKind, key: string, value: unknown) {
+  const file = fixturePath(dir, kind, key);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2));
+}
+
+function searchKey(query: string, options?: SearchOptions) {
+  return options ? `${query}|${JSON.stringify(options)}` : query;
+}
+
+// Serves recorded responses from disk so the app and tests run without network access
+class FixtureMarketData implements MarketDataProvider {
+  readonly name = 'fixtures';
+  constructor(private dir: string) {}
+
+  private require<T>(kind: FixtureKind, key: string): T {
+    const value = readFixture<T>(this.dir, kind, key);
+    if (value === null) throw new Error(`No ${kind} fixture for "${key}" in ${this.dir}`);
+    return value;
+  }
+
+  async historical(symbol: string, query: HistoricalQuery) {
+    const rows = this.require<HistoricalHistoryResult>('historical', symbol);
+    return rows.filter(r => r.date >= query.period1 && r.date <= query.period2);
+  }
+
+  async quote(symbol: string) {
+    return this.require<Quote>('quote', symbol);
+  }
+
+  async quoteSummary(symbol: string, options: QuoteSummaryOptions) {
+    const recorded = this.require<QuoteSummaryResult>('quoteSummary', symbol);
+    const modules = options.modules === 'all' || !options.modules ? null : new Set<string>(options.modules);
+    return Object.fromEntries(
+      Object.entries(recorded).filter(([name]) => !modules || modules.has(name)),
+    ) as QuoteSummaryResult;
+  }
+
+  async recommendationsBySymbol(symbol: string) {
+    return this.require<RecommendationsBySymbolResponse>('recommendations', symbol);
+  }
+
+  async search(query: string, options?: SearchOptions) {
+    return this.require<SearchResult>('search', searchKey(query, options));
+  }
+}
+
+// Passes calls through to another provider and saves each response as a fixture,
+// merging with what is already on disk so repeated runs grow the recording
+class RecordingMarketData implements MarketDataProvider {
+  readonly name: string;
+  constructor(private inner: MarketDataProvider, private dir: string) {
+    this.name = `${inner.name}+recording`;
+  }
+
+  async historical(symbol: string, query: HistoricalQuery) {
+    const rows = await this.inner.historical(symbol, query);
+    const byDate = new Map<string, HistoricalHistoryResult[number]>();
+    for (const r of readFixture<HistoricalHistoryResult>(this.dir, 'historical', symbol) || []) byDate.set(r.date.toISOString(), r);
+    for (const r of rows) byDate.set(r.date.toISOString(), r);
+    writeFixture(this.dir, 'historical', symbol, Array.from(byDate.values()).sort((a, b) => a.date.getTime() - b.date.getTime()));
+    return rows;
+  }
+
+  async quote(symbol: string) {
+    const result = await this.inner.quote(symbol);
+    if (result) writeFixture(this.dir, 'quote', symbol, result);
+    return result;
+  }
+
+  async quoteSummary(symbol: string, options: QuoteSummaryOptions) {
+    const result = await this.inner.quoteSummary(symbol, options);
+    const existing = readFixture<QuoteSummaryResult>(this.dir, 'quoteSummary', symbol);
+    writeFixture(this.dir, 'quoteSummary', symbol, { ...existing, ...result });
+    return result;
+  }
+
+  async recommendationsBySymbol(symbol: string) {
+    const result = await this.inner.recommendationsBySymbol(symbol);
+    writeFixture(this.dir, 'recommendations', symbol, result);
+    return result;
+  }
+
+  async search(query: string, options?: SearchOptions) {
+    const result = await this.inner.search(query, options);
+    writeFixture(this.dir, 'search', searchKey(query, options), result);
+    return result;
+  }
+}
+
+export const MARKET_DATA_FIXTURES_DIR = process.env.MARKET_DATA_FIXTURES_DIR || path.resolve(process.cwd(), 'fixtures', 'market-data');
+
+// MARKET_DATA_PROVIDER=fixtures serves recorded responses; anything else uses Yahoo.
+// MARKET_DATA_RECORD=true records Yahoo responses into the fixtures directory.
+export function createMarketDataProvider(): MarketDataProvider {
+  if (process.env.MARKET_DATA_PROVIDER === 'fixtures') return new FixtureMarketData(MARKET_DATA_FIXTURES_DIR);
+  const yahoo = new YahooMarketData();
+  return process.env.MARKET_DATA_RECORD === 'true' ? new RecordingMarketData(yahoo, MARKET_DATA_FIXTURES_DIR) : yahoo;
+}
+
+export const dataProvider = createMarketDataProvider();
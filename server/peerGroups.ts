@@ -0,0 +1,28 @@
+import type { PeerGroup, PeerGroupInfo, PeerGroupInput } from "@shared/schema";
+import { storage } from "./storage";
+
+export function peerGroupInfo(group: PeerGroup): PeerGroupInfo {
+  return {
+    id: group.id,
+    name: group.name,
+    description: group.description,
+    tickers: group.tickers,
+    createdAt: group.createdAt.toISOString(),
+    updatedAt: group.updatedAt.toISOString(),
+  };
+}
+
+// Tickers are stored upper-cased and once each, in the order given
+export function normalizePeerGroup(input: PeerGroupInput): PeerGroupInput {
+  return {
+    name: input.name,
+    description: input.description || null,
+    tickers: Array.from(new Set(input.tickers.map(t => t.toUpperCase()))),
+  };
+}
+
+// Names are unique regardless of case; `exceptId` lets a group keep its own name on update
+export async function peerGroupNameTaken(name: string, exceptId?: number): Promise<boolean> {
+  const groups = await storage.listPeerGroups();
+  return groups.some(g => g.id !== exceptId && g.name.toLowerCase() === name.toLowerCase());
+}
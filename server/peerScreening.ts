@@ -0,0 +1,63 @@
+import type { PeerFilters, PeerScreening } from "@shared/schema";
+
+export const DEFAULT_MAX_PEERS = 10;
+
+export interface ScreenablePeer {
+  marketCap: number;
+  rSquared: number | null;
+  dataPoints?: number;
+  avgTradedValue?: number | null;
+}
+
+// Filters that need a peer's beta and price history; without any, only the top maxPeers
+// discovered candidates are worth computing
+export function screensAfterBeta(filters: PeerFilters | undefined): boolean {
+  return !!filters && (filters.marketCapBand !== undefined || filters.minAvgTradedValue !== undefined ||
+    filters.minRSquared !== undefined || filters.minDataPoints !== undefined);
+}
+
+// Mean daily turnover (close × volume) over the window, in INR
+export function averageTradedValue(bars: { close: number; volume?: number }[], inrRate: number | undefined): number | null {
+  const values = bars.filter(b => b.volume !== undefined).map(b => b.close * b.volume!);
+  if (values.length === 0 || inrRate === undefined) return null;
+  return values.reduce((a, b) => a + b, 0) / values.length * inrRate;
+}
+
+// Apply the screens in order to the discovered peers (null where the peer had no usable data),
+// counting what each removes. `uncomputed` peers were ranked beyond maxPeers and never fetched.
+export function screenPeers<T extends ScreenablePeer>(
+  peers: (T | null)[],
+  uncomputed: number,
+  filters: PeerFilters | undefined,
+  targetMarketCap: number | null,
+): { kept: T[]; screening: PeerScreening } {
+  const removed = { missingData: 0, marketCapBand: 0, avgTradedValue: 0, rSquared: 0, dataPoints: 0, maxPeers: uncomputed };
+  const notes: string[] = [];
+  const screen = (list: T[], key: keyof typeof removed, keep: (p: T) => boolean) => {
+    const passed = list.filter(keep);
+    removed[key] += list.length - passed.length;
+    return passed;
+  };
+
+  let kept = screen(peers.filter((p): p is T => p !== null), 'missingData', p => p.marketCap > 0);
+  removed.missingData += peers.filter(p => p === null).length;
+
+  const band = filters?.marketCapBand;
+  if (band && targetMarketCap) {
+    kept = screen(kept, 'marketCapBand', p => p.marketCap >= band.min * targetMarketCap && p.marketCap <= band.max * targetMarketCap);
+  } else if (band) {
+    notes.push("Market cap band not applied: the target's market cap is unknown.");
+  }
+  const minTraded = filters?.minAvgTradedValue;
+  if (minTraded !== undefined) kept = screen(kept, 'avgTradedValue', p => (p.avgTradedValue ?? 0) >= minTraded);
+  const minR2 = filters?.minRSquared;
+  if (minR2 !== undefined) kept = screen(kept, 'rSquared', p => (p.rSquared ?? 0) >= minR2);
+  const minPoints = filters?.minDataPoints;
+  if (minPoints !== undefined) kept = screen(kept, 'dataPoints', p => (p.dataPoints ?? 0) >= minPoints);
+
+  const maxPeers = filters?.maxPeers ?? DEFAULT_MAX_PEERS;
+  removed.maxPeers += Math.max(kept.length - maxPeers, 0);
+  kept = kept.slice(0, maxPeers);
+
+  return { kept, screening: { candidates: peers.length + uncomputed, removed, kept: kept.length, notes } };
+}
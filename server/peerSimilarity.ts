@@ -0,0 +1,66 @@
+import type { CompanyProfile } from "@shared/schema";
+import { storage } from "./storage";
+import { alternateListing } from "./securityMaster";
+import { similarityBackend, type SimilarityBackend } from "./similarity";
+import { loadCompanyProfiles } from "./companyProfiles";
+
+export type PeerConfidence = "High" | "Medium" | "Fallback";
+
+// Ranking score = SIMILARITY_WEIGHT × description similarity + INDUSTRY_WEIGHT × industry match
+const SIMILARITY_WEIGHT = 0.7;
+const INDUSTRY_WEIGHT = 0.3;
+
+export interface PeerCandidate {
+  symbol: string;
+  industryMatch: boolean;
+  marketCap: number;
+}
+
+export interface PeerRanking {
+  similarityScore?: number; // similarity of business descriptions, when both have profiles
+  confidence: PeerConfidence;
+  keywords?: string[];
+  score: number;
+}
+
+// Profiles are precomputed per Yahoo ticker, which may be either listing of the company.
+// Only profiles built by the active backend are comparable.
+async function profileFor(ticker: string, backend: SimilarityBackend): Promise<CompanyProfile | undefined> {
+  for (const listing of [ticker, alternateListing(ticker)]) {
+    const profile = listing ? await storage.getCompanyProfile(listing) : undefined;
+    if (profile?.backend === backend.name) return profile;
+  }
+  return undefined;
+}
+
+// Score candidates against the target's business description. Without a profile on both
+// sides a candidate keeps only its industry match and is marked Fallback; cross-industry
+// candidates are dropped unless their description is close enough to stand on its own.
+export async function rankPeers<T extends PeerCandidate>(target: string, candidates: T[]): Promise<(T & PeerRanking)[]> {
+  const backend = similarityBackend();
+  await loadCompanyProfiles();
+  const targetProfile = await profileFor(target, backend);
+  const profiles = targetProfile ? await Promise.all(candidates.map(c => profileFor(c.symbol, backend))) : [];
+  const profiled = profiles.filter((p): p is CompanyProfile => !!p);
+  const scores = targetProfile ? backend.similarities(targetProfile.embedding, profiled.map(p => p.embedding)) : [];
+  const similarity = new Map(profiled.map((p, i) => [p, scores[i]]));
+
+  const ranked: (T & PeerRanking)[] = [];
+  candidates.forEach((candidate, i) => {
+    const profile = profiles[i];
+    if (!profile) {
+      if (candidate.industryMatch) ranked.push({ ...candidate, confidence: "Fallback", score: INDUSTRY_WEIGHT });
+      return;
+    }
+    const score = similarity.get(profile)!;
+    if (!candidate.industryMatch && score < backend.minCrossIndustry) return;
+    ranked.push({
+      ...candidate,
+      similarityScore: score,
+      confidence: candidate.industryMatch && score >= backend.highSimilarity ? "High" : "Medium",
+      keywords: profile.keywords,
+      score: SIMILARITY_WEIGHT * score + (candidate.industryMatch ? INDUSTRY_WEIGHT : 0),
+    });
+  });
+  return ranked.sort((a, b) => b.score - a.score || b.marketCap - a.marketCap);
+}
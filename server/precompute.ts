@@ -1,59 +1,23 @@
-import YahooFinance from 'yahoo-finance2';
-import OpenAI from "openai";
-import { storage } from "./storage";
-import { db } from "./db";
-import { companyProfiles } from "@shared/schema";
+import { dataProvider } from "./marketData";
+import { similarityBackend } from "./similarity";
+import { COMPANY_PROFILES_PATH, saveCompanyProfiles } from "./companyProfiles";
 
-const yahooFinance = new YahooFinance();
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
-
-async function getEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
-  });
-  return response.data[0].embedding;
-}
-
-async function generateKeywords(text: string): Promise<string[]> {
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      {
-        role: "system",
-        content: "Extract exactly 5 core business keywords from the following business summary. Return them as a comma-separated list of single words or short phrases.",
-      },
-      {
-        role: "user",
-        content: text,
-      },
-    ],
-    max_completion_tokens: 50,
-  });
-  const content = response.choices[0].message.content || "";
-  return content.split(",").map(k => k.trim().toLowerCase()).slice(0, 5);
-}
+const backend = similarityBackend();
 
 async function precomputeProfile(ticker: string) {
   try {
     console.log(`Processing ${ticker}...`);
-    const summary = await yahooFinance.quoteSummary(ticker, { modules: ['assetProfile'] }).catch(() => null);
+    const summary = await dataProvider.quoteSummary(ticker, { modules: ['assetProfile'] }).catch(() => null);
     if (!summary?.assetProfile?.longBusinessSummary) {
       console.log(`No summary for ${ticker}`);
       return;
     }
 
     const description = summary.assetProfile.longBusinessSummary;
-    const [embedding, keywords] = await Promise.all([
-      getEmbedding(description),
-      generateKeywords(description)
-    ]);
+    const { embedding, keywords } = await backend.describe(description);
 
-    await storage.upsertCompanyProfile({ ticker, keywords, embedding });
-    console.log(`Updated profile for ${ticker}`);
+    saveCompanyProfiles([{ ticker, keywords, embedding, backend: backend.name }]);
+    console.log(`Updated profile for ${ticker} in ${COMPANY_PROFILES_PATH}`);
   } catch (error) {
     console.error(`Error for ${ticker}:`, error);
   }
@@ -65,6 +29,7 @@ async function run() {
     console.log("Please provide tickers as arguments: npm run precompute -- RELIANCE.NS TCS.NS");
     return;
   }
+  console.log(`Building ${backend.name} similarity profiles`);
 
   for (const ticker of tickers) {
     await precomputeProfile(ticker);
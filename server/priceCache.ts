@@ -0,0 +1,205 @@
+import type { InsertPriceBar, PriceBar } from "@shared/schema";
+import { storage } from "./storage";
+import { dataProvider } from "./marketData";
+import { CircuitOpenError } from "./upstream";
+import { exchangeForTicker } from "./bhavcopy";
+import { findSecurity } from "./securityMaster";
+
+// A bar that is still forming (today's session) is refetched once it is older than this
+const TAIL_REFRESH_MS = 15 * 60 * 1000;
+
+// Exchange bars replace the provider's only when they cover most of the same trading days
+const EXCHANGE_MIN_COVERAGE = 0.9;
+
+export interface HistoricalBar {
+  date: Date;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  adjClose?: number;
+  volume?: number;
+}
+
+const toDateKey = (d: Date) => d.toISOString().split('T')[0];
+
+async function fetchFromProvider(ticker: string, from: Date, to: Date, retries = 3) {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      const result = await dataProvider.historical(ticker, { period1: from, period2: to, interval: '1d' });
+      if (result && result.length > 0) return result;
+      if (attempt < retries) await new Promise(r => setTimeout(r, attempt * 1000));
+    } catch (error) {
+      if (error instanceof CircuitOpenError) return null; // retrying can't help until the breaker closes
+      console.error(`Error fetching data for ${ticker} (attempt ${attempt}/${retries}):`, error);
+      if (attempt < retries) await new Promise(r => setTimeout(r, attempt * 1000));
+    }
+  }
+  return null;
+}
+
+function toInsertBars(ticker: string, rows: HistoricalBar[]): InsertPriceBar[] {
+  return rows
+    .filter(r => r && r.date && r.close)
+    .map(r => ({
+      symbol: ticker,
+      source: "yahoo",
+      date: toDateKey(r.date),
+      open: r.open ?? null,
+      high: r.high ?? null,
+      low: r.low ?? null,
+      close: r.close,
+      adjClose: r.adjClose ?? null,
+      volume: r.volume ?? null,
+    }));
+}
+
+// Fetch [from, to] from the provider and store it; false when the provider returned nothing
+async function fill(ticker: string, from: Date, to: Date): Promise<boolean> {
+  const rows = await fetchFromProvider(ticker, from, to);
+  if (!rows) return false;
+  await storage.upsertPriceBars(toInsertBars(ticker, rows));
+  return true;
+}
+
+const samePrice = (a: number | null | undefined, b: number | null | undefined) =>
+  a == null || b == null ? a == b : Math.abs(a - b) <= Math.abs(b) * 1e-6;
+
+// Fetch from the overlap bar (the last stored session before today) to `to`. After a split or
+// dividend Yahoo rewrites every earlier adjusted price, so when the refetched overlap bar no
+// longer matches the stored one the cached bars are on an old basis: replace the whole
+// cached range from `fromDate` instead of appending new bars to them.
+async function refreshTail(ticker: string, overlap: PriceBar, fromDate: string, to: Date): Promise<boolean> {
+  const rows = await fetchFromProvider(ticker, new Date(`${overlap.date}T00:00:00.000Z`), to);
+  if (!rows) return false;
+  const bars = toInsertBars(ticker, rows);
+  const refetched = bars.find(b => b.date === overlap.date);
+  if (refetched && (!samePrice(refetched.close, overlap.close) || !samePrice(refetched.adjClose, overlap.adjClose))) {
+    console.warn(`Price history for ${ticker} was revised at ${overlap.date}; refetching from ${fromDate}`);
+    const full = await fetchFromProvider(ticker, new Date(`${fromDate}T00:00:00.000Z`), to);
+    if (!full) return false;
+    await storage.deletePriceHistory(ticker, "yahoo");
+    await storage.upsertPriceBars(toInsertBars(ticker, full));
+    return true;
+  }
+  await storage.upsertPriceBars(bars);
+  return true;
+}
+
+function toHistoricalBar(bar: PriceBar): HistoricalBar {
+  return {
+    date: new Date(`${bar.date}T00:00:00.000Z`),
+    open: bar.open ?? undefined,
+    high: bar.high ?? undefined,
+    low: bar.low ?? undefined,
+    close: bar.close,
+    adjClose: bar.adjClose ?? undefined,
+    volume: bar.volume ?? undefined,
+  };
+}
+
+// Daily bars for [startDate, endDate], served from the price cache. Only the part of the
+// window not fetched before goes to the provider: the missing tail since the last stored
+// bar (which is refetched, in case it was an intraday snapshot) and any earlier head. If the
+// refetched bars show the adjusted history was revised, the cached range is replaced.
+export async function fetchHistoricalData(ticker: string, startDate: string, endDate: string): Promise<HistoricalBar[] | null> {
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  const from = toDateKey(start);
+  const to = toDateKey(end);
+
+  // Uploaded series are the only source of truth for their symbol; never ask the provider
+  if (await storage.getCustomSeries(ticker)) {
+    const bars = await storage.getPriceBars(ticker, from, to, "custom");
+    return bars.length > 0 ? bars.map(toHistoricalBar) : null;
+  }
+
+  const today = toDateKey(new Date());
+  const coverage = await storage.getPriceCoverage(ticker);
+
+  if (!coverage) {
+    if (!(await fill(ticker, start, end))) return null;
+    await storage.setPriceCoverage({ symbol: ticker, fromDate: from, toDate: to, refreshedAt: new Date() });
+  } else {
+    let { fromDate, toDate, refreshedAt } = coverage;
+    // Overlap the first stored bar so a window before listing still returns data and counts as covered
+    const headEnd = new Date(`${fromDate}T00:00:00.000Z`);
+    headEnd.setUTCDate(headEnd.getUTCDate() + 1);
+    if (from < fromDate && await fill(ticker, start, headEnd)) fromDate = from;
+
+    const stale = Date.now() - refreshedAt.getTime() > TAIL_REFRESH_MS;
+    if (to > toDate || (toDate >= today && stale)) {
+      const stored = await storage.getPriceBars(ticker, undefined, undefined, "yahoo");
+      const lastBar = stored.length ? stored[stored.length - 1].date : toDate;
+      // Today's bar may be an intraday snapshot, so it can't tell whether history was revised
+      const overlap = stored.filter(b => b.date < today).pop();
+      const refreshed = overlap
+        ? await refreshTail(ticker, overlap, fromDate, end)
+        : await fill(ticker, new Date(lastBar), end);
+      if (refreshed) {
+        toDate = to > toDate ? to : toDate;
+        refreshedAt = new Date();
+      } else {
+        console.warn(`Serving cached bars for ${ticker}; tail refresh after ${lastBar} failed`);
+      }
+    }
+    await storage.setPriceCoverage({ symbol: ticker, fromDate, toDate, refreshedAt });
+  }
+
+  const bars = await storage.getPriceBars(ticker, from, to, "yahoo");
+  return bars.length > 0 ? bars.map(toHistoricalBar) : null;
+}
+
+// Bhavcopy bars are stored under the exchange's own code: the scrip code for BSE (500325.BO).
+// Without a BSE master the ticker asked for may be the symbol form (RELIANCE.BO) instead, so
+// fall back to whatever symbol the company's ISIN was imported under.
+async function exchangeBars(ticker: string, exchange: string, from: string, to: string): Promise<PriceBar[]> {
+  const bars = await storage.getPriceBars(ticker, from, to, exchange);
+  if (bars.length > 0) return bars;
+  const isin = findSecurity(ticker)?.isin;
+  const symbol = isin ? await storage.findPriceSymbolByIsin(isin, exchange) : undefined;
+  return symbol && symbol !== ticker ? storage.getPriceBars(symbol, from, to, exchange) : bars;
+}
+
+// Like fetchHistoricalData, but with `preferExchange` serves imported NSE/BSE bhavcopy bars
+// when they cover the window about as well as the provider does. Sources are never mixed
+// within one series, since bhavcopy closes are unadjusted and Yahoo's are split-adjusted.
+export async function fetchPriceHistory(ticker: string, startDate: string, endDate: string, preferExchange: boolean): Promise<{ bars: HistoricalBar[]; source: string } | null> {
+  const bars = await fetchHistoricalData(ticker, startDate, endDate);
+  if (await storage.getCustomSeries(ticker)) return bars ? { bars, source: "custom" } : null;
+
+  const exchange = preferExchange ? exchangeForTicker(ticker) : null;
+  if (exchange) {
+    const imported = await exchangeBars(ticker, exchange, toDateKey(new Date(startDate)), toDateKey(new Date(endDate)));
+    if (imported.length >= 2 && imported.length >= (bars?.length ?? 0) * EXCHANGE_MIN_COVERAGE) {
+      return { bars: imported.map(toHistoricalBar), source: exchange };
+    }
+  }
+  return bars ? { bars, source: "yahoo" } : null;
+}
+
+export async function priceCacheStatus(symbol: string) {
+  const [coverage, bars] = await Promise.all([storage.getPriceCoverage(symbol), storage.getPriceBars(symbol, undefined, undefined, "yahoo")]);
+  return {
+    symbol,
+    bars: bars.length,
+    fromDate: coverage?.fromDate ?? null,
+    toDate: coverage?.toDate ?? null,
+    firstBar: bars[0]?.date ?? null,
+    lastBar: bars[bars.length - 1]?.date ?? null,
+    refreshedAt: coverage?.refreshedAt.toISOString() ?? null,
+  };
+}
+
+// Drop the provider bars cached for the symbol. Imported exchange bars and uploaded series
+// have their own import records and are left alone.
+export async function purgePriceHistory(symbol: string) {
+  return storage.deletePriceHistory(symbol, "yahoo");
+}
+
+// Drop the provider bars cached for the symbol and refetch the window; imported exchange bars are kept
+export async function rebuildPriceHistory(symbol: string, startDate: string, endDate: string) {
+  await storage.deletePriceHistory(symbol, "yahoo");
+  const bars = await fetchHistoricalData(symbol, startDate, endDate);
+  return bars ? priceCacheStatus(symbol) : null;
+}
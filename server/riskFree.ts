@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import path from 'path';
+
+// Local CSV of Indian T-bill yields (e.g. RBI 91-day auction cut-offs): a date column and a
+// yield column, yields in percent or as decimals. Override the location with RISK_FREE_CSV.
+export const TBILL_CSV_PATH = process.env.RISK_FREE_CSV || path.resolve(process.cwd(), 'attached_assets', 'india_tbill_yields.csv');
+
+interface YieldObservation {
+  date: string; // YYYY-MM-DD
+  rate: number; // annual, decimal
+}
+
+let tbillCache: { mtimeMs: number; rows: YieldObservation[] } | null = null;
+
+function parseDate(raw: string): string | null {
+  const value = raw.trim().replace(/^"|"$/g, '');
+  // DD-MM-YYYY or DD/MM/YYYY, as published by RBI and CCIL
+  const dmy = value.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString().split('T')[0];
+}
+
+// Parse and cache the yield file; null when it is missing or has no usable rows
+export function loadTbillYields(): YieldObservation[] | null {
+  if (!fs.existsSync(TBILL_CSV_PATH)) return null;
+  const { mtimeMs } = fs.statSync(TBILL_CSV_PATH);
+  if (tbillCache && tbillCache.mtimeMs === mtimeMs) return tbillCache.rows;
+
+  const lines = fs.readFileSync(TBILL_CSV_PATH, 'utf-8').split(/\r?\n/).filter(l => l.trim());
+  if (lines.length < 2) return null;
+  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, '').toLowerCase());
+  const dateIdx = headers.findIndex(h => h.includes('date'));
+  const rateIdx = headers.findIndex(h => h.includes('yield') || h.includes('rate'));
+  if (dateIdx === -1 || rateIdx === -1) return null;
+
+  const rows = lines.slice(1).map(line => {
+    const cells = line.split(',');
+    const date = parseDate(cells[dateIdx] || '');
+    const value = parseFloat((cells[rateIdx] || '').replace(/["%]/g, ''));
+    if (!date || !Number.isFinite(value)) return null;
+    return { date, rate: value > 1 ? value / 100 : value };
+  }).filter((r): r is YieldObservation => r !== null).sort((a, b) => a.date.localeCompare(b.date));
+
+  if (rows.length === 0) return null;
+  tbillCache = { mtimeMs, rows };
+  return rows;
+}
+
+// Compound an annual rate down to one return period
+export function periodRate(annualRate: number, periodsPerYear: number): number {
+  return Math.pow(1 + annualRate, 1 / periodsPerYear) - 1;
+}
+
+// Annual risk-free rate in force at the start of each return period (return i runs from
+// dates[i] to dates[i + 1]), using the latest yield published on or before that date.
+// Periods before the first observation take the earliest yield on file.
+export function tbillRatesForPeriods(dates: string[], yields: YieldObservation[]): number[] {
+  const rates: number[] = [];
+  let j = 0;
+  for (let i = 0; i < dates.length - 1; i++) {
+    while (j + 1 < yields.length && yields[j + 1].date <= dates[i]) j++;
+    rates.push(yields[j].rate);
+  }
+  return rates;
+}
@@ -1,87 +1,243 @@
-import type { Express } from "express";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
+import { CUSTOM_SYMBOL_PREFIX, type BetaSource, type CalculateBetaRequest, type FxRate, type RegressionDiagnostics, type RollingBetaPoint, type SuspiciousReturn } from "@shared/schema";
+import { BENCHMARKS, defaultBenchmark, getBenchmark } from "./benchmarks";
+import { multipleRegression, pearsonCorrelation, regressionSlope, studentTCritical, studentTPValue } from "./stats";
+import { loadTbillYields, periodRate, tbillRatesForPeriods } from "./riskFree";
 import { z } from "zod";
-import YahooFinance from 'yahoo-finance2';
-import ExcelJS from 'exceljs';
-import * as fs from 'fs';
-import path from 'path';
-
-// Yahoo Finance blocks datacenter IPs (Railway, AWS etc.) without browser headers
-const yf = new YahooFinance({
-  fetchOptions: {
-    headers: {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'Connection': 'keep-alive',
-      'Cache-Control': 'max-age=0',
-    },
-  },
-  suppressNotices: ['yahooSurvey'],
-});
-
-
-let industryList: { symbol: string; name: string; industry: string }[] = [];
-
-async function loadExcelData() {
-  try {
-    const filePath = path.resolve(process.cwd(), 'attached_assets', 'INDIAN_COMPANIES_LIST_INDUSTRY_WISE_1767863645829.xlsx');
-    if (fs.existsSync(filePath)) {
-      const workbook = new ExcelJS.Workbook();
-      await workbook.xlsx.readFile(filePath);
-      const sheet = workbook.worksheets[0];
-      if (!sheet) return;
-
-      const rawData: any[][] = [];
-      sheet.eachRow((row) => {
-        const vals = row.values as any[];
-        rawData.push(vals.slice(1));
-      });
+import { dataProvider } from "./marketData";
+import { fetchHistoricalData, fetchPriceHistory, priceCacheStatus, purgePriceHistory, rebuildPriceHistory } from "./priceCache";
+import { yahooScheduler } from "./upstream";
+import { customSeriesInfo, isCustomSymbol, saveCustomSeriesUpload, SeriesUploadError } from "./customSeries";
+import { importBhavcopies } from "./bhavcopy";
+import { reportingDate, reportingInrRate, spotInrRate } from "./fx";
+import { searchTickers } from "./tickerSearch";
+import { fundamentalHistory, recordFundamentals } from "./fundamentals";
+import { rankPeers, type PeerConfidence } from "./peerSimilarity";
+import { loadCompanyProfiles } from "./companyProfiles";
+import { normalizePeerGroup, peerGroupInfo, peerGroupNameTaken } from "./peerGroups";
+import { averageTradedValue, DEFAULT_MAX_PEERS, screenPeers, screensAfterBeta } from "./peerScreening";
+import { alternateListing, findSecurity, listedCompanies, loadSecurityMaster, preferredListing, resolveTicker, securitiesInIndustry, type Exchange } from "./securityMaster";
 
-      if (rawData.length > 0) {
-        const headers = rawData[0].map((h: any) => String(h || '').trim().toLowerCase());
-
-        const nameIdx = headers.findIndex(h => h.includes('company') || h === 'name');
-        const tickerIdx = headers.findIndex(h => h.includes('ticker') || h === 'symbol');
-        const industryIdx = headers.findIndex(h => h === 'industry group' || h === 'industry' || h === 'sector');
-
-        if (tickerIdx !== -1) {
-          industryList = rawData.slice(1).map(row => {
-            const rowData = row as any[];
-            const rawTicker = String(rowData[tickerIdx] || '').trim();
-            const symbol = rawTicker.includes(':') ? rawTicker.split(':')[1] : rawTicker;
-
-            return {
-              symbol: symbol,
-              name: nameIdx !== -1 ? String(rowData[nameIdx] || '').trim() : '',
-              industry: industryIdx !== -1 ? String(rowData[industryIdx] || '').trim() : ''
-            };
-          }).filter(item => item.symbol);
-        }
-      }
+loadSecurityMaster();
+loadCompanyProfiles();
+
+type ReturnFrequency = CalculateBetaRequest["frequency"];
+
+// Return observations per year, used to annualise volatility for each sampling frequency
+const PERIODS_PER_YEAR: Record<ReturnFrequency, number> = { daily: 252, weekly: 52, monthly: 12 };
+
+// Fewer aligned prices than this and the regression is not reported; the calculate route
+// tries the company's other listing, then falls back to a peer-median proxy
+const MIN_ALIGNED_POINTS: Record<ReturnFrequency, number> = { daily: 60, weekly: 20, monthly: 10 };
+
+// Stock and market closes matched on trading date
+interface AlignedSeries {
+  dates: string[];
+  stock: number[];
+  market: number[];
+}
+
+interface PriceBar {
+  date: Date;
+  close: number;
+  adjClose?: number;
+}
+
+// Adjusted closes net out splits, bonuses and dividends; fall back to the raw close when absent
+function barPrice(bar: PriceBar, useAdjusted: boolean): number {
+  return useAdjusted && bar.adjClose ? bar.adjClose : bar.close;
+}
+
+function alignPrices(bars: PriceBar[], marketByDate: Map<string, number>, useAdjusted = true): AlignedSeries {
+  const series: AlignedSeries = { dates: [], stock: [], market: [] };
+  bars.forEach(d => {
+    const dateStr = d.date.toISOString().split('T')[0];
+    const mPrice = marketByDate.get(dateStr);
+    const price = barPrice(d, useAdjusted);
+    if (mPrice && price) {
+      series.dates.push(dateStr);
+      series.stock.push(price);
+      series.market.push(mPrice);
+    }
+  });
+  return series;
+}
+
+// A single-period stock move this large while the index barely moved is almost always an
+// unadjusted split, bonus or rights issue rather than information the regression should fit
+const SUSPICIOUS_STOCK_MOVE = 0.4;
+const QUIET_MARKET_MOVE = 0.05;
+
+// Flag suspicious returns; `excluded` holds their return indices (return i runs from price i to i + 1)
+function detectSuspiciousReturns(series: AlignedSeries, drop: boolean): { flagged: SuspiciousReturn[]; excluded: Set<number> } {
+  const flagged: SuspiciousReturn[] = [];
+  const excluded = new Set<number>();
+  for (let i = 1; i < series.stock.length; i++) {
+    const stockReturn = (series.stock[i] - series.stock[i - 1]) / series.stock[i - 1];
+    const marketReturn = (series.market[i] - series.market[i - 1]) / series.market[i - 1];
+    if (Math.abs(stockReturn) > SUSPICIOUS_STOCK_MOVE && Math.abs(marketReturn) < QUIET_MARKET_MOVE) {
+      flagged.push({ date: series.dates[i], stockReturn, marketReturn, dropped: drop });
+      if (drop) excluded.add(i - 1);
     }
-  } catch (error) {
-    console.error("Error loading Excel file:", error);
   }
+  return { flagged, excluded };
+}
+
+// Bucket key for a YYYY-MM-DD date: the Monday of its week, or its calendar month
+function periodKey(dateStr: string, frequency: ReturnFrequency): string {
+  if (frequency === "monthly") return dateStr.slice(0, 7);
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().split('T')[0];
+}
+
+// Downsample an aligned daily series to the last observation of each week or month
+function resampleSeries(series: AlignedSeries, frequency: ReturnFrequency): AlignedSeries {
+  if (frequency === "daily") return series;
+
+  const resampled: AlignedSeries = { dates: [], stock: [], market: [] };
+  let lastKey: string | null = null;
+  series.dates.forEach((date, i) => {
+    const key = periodKey(date, frequency);
+    if (key === lastKey) {
+      const last = resampled.dates.length - 1;
+      resampled.dates[last] = date;
+      resampled.stock[last] = series.stock[i];
+      resampled.market[last] = series.market[i];
+    } else {
+      resampled.dates.push(date);
+      resampled.stock.push(series.stock[i]);
+      resampled.market.push(series.market[i]);
+      lastKey = key;
+    }
+  });
+  return resampled;
 }
 
-loadExcelData();
+type BetaMethod = CalculateBetaRequest["betaMethod"];
+
+const CONFIDENCE_LEVEL = 0.95;
+
+interface MetricsOptions {
+  periodsPerYear?: number;
+  betaMethod?: BetaMethod;
+  excludeReturns?: Set<number>;
+  riskFreeRates?: number[]; // annual rate for each return period; zero when omitted
+}
+
+// Options for a whole aligned series: screening, plus a risk-free rate resolved against its dates
+interface SeriesMetricsOptions extends Omit<MetricsOptions, "excludeReturns" | "riskFreeRates"> {
+  dropSuspiciousReturns: boolean;
+  riskFree?: (dates: string[]) => number[];
+}
+
+// A beta estimate with the sampling errors needed for inference on beta and alpha
+interface BetaEstimate {
+  beta: number;
+  alpha: number;
+  standardError: number;
+  alphaStandardError: number;
+  residualStdDev: number; // per period, not annualised
+  df: number;
+}
+
+// Lead/lag estimators pair each period with its neighbours, so they take the full return series
+// with a mask of usable periods: a screened-out return drops every row that touches it rather
+// than closing the gap and pairing periods that were never adjacent.
+
+// Dimson (1979): regress on lagged, synchronous and leading market returns and sum the slopes,
+// capturing price response that non-synchronous trading spreads across adjacent days
+function dimsonEstimate(stockReturns: number[], marketReturns: number[], usable: boolean[]): BetaEstimate | null {
+  const rows: number[] = [];
+  for (let t = 1; t < stockReturns.length - 1; t++) {
+    if (usable[t - 1] && usable[t] && usable[t + 1]) rows.push(t);
+  }
+  const fit = multipleRegression(rows.map(t => stockReturns[t]), [
+    rows.map(t => marketReturns[t - 1]),
+    rows.map(t => marketReturns[t]),
+    rows.map(t => marketReturns[t + 1]),
+  ]);
+  if (!fit) return null;
+
+  const slopes = [1, 2, 3];
+  let sumVariance = 0;
+  for (const i of slopes) for (const j of slopes) sumVariance += fit.covariance[i][j];
+  return {
+    beta: slopes.reduce((sum, i) => sum + fit.coefficients[i], 0),
+    alpha: fit.coefficients[0],
+    standardError: Math.sqrt(Math.max(sumVariance, 0)),
+    alphaStandardError: Math.sqrt(Math.max(fit.covariance[0][0], 0)),
+    residualStdDev: fit.residualStdDev,
+    df: fit.df,
+  };
+}
+
+// Scholes–Williams (1977): average of lag, synchronous and lead slopes, scaled by
+// 1 + 2ρ where ρ is the first-order autocorrelation of market returns. There is no
+// closed-form standard error, so inference reuses the synchronous OLS errors.
+function scholesWilliamsEstimate(stockReturns: number[], marketReturns: number[], usable: boolean[], ols: BetaEstimate): BetaEstimate | null {
+  const adjacent: number[] = []; // t where periods t − 1 and t are both usable
+  for (let t = 1; t < stockReturns.length; t++) {
+    if (usable[t - 1] && usable[t]) adjacent.push(t);
+  }
+  if (adjacent.length < 2) return null;
+  const betaLag = regressionSlope(adjacent.map(t => stockReturns[t]), adjacent.map(t => marketReturns[t - 1]));
+  const betaLead = regressionSlope(adjacent.map(t => stockReturns[t - 1]), adjacent.map(t => marketReturns[t]));
+  const rho = pearsonCorrelation(adjacent.map(t => marketReturns[t]), adjacent.map(t => marketReturns[t - 1]));
+  if (betaLag === null || betaLead === null || rho === null || 1 + 2 * rho <= 0) return null;
+
+  const beta = (betaLag + ols.beta + betaLead) / (1 + 2 * rho);
+  const kept = stockReturns.map((_, i) => i).filter(i => usable[i]);
+  const meanStock = kept.reduce((a, i) => a + stockReturns[i], 0) / kept.length;
+  const meanMarket = kept.reduce((a, i) => a + marketReturns[i], 0) / kept.length;
+  return { ...ols, beta, alpha: meanStock - beta * meanMarket };
+}
+
+function buildDiagnostics(estimate: BetaEstimate, periodsPerYear: number): RegressionDiagnostics | null {
+  if (estimate.df < 1 || !(estimate.standardError > 0) || !(estimate.alphaStandardError > 0)) return null;
+  const tStat = estimate.beta / estimate.standardError;
+  const margin = studentTCritical(CONFIDENCE_LEVEL, estimate.df) * estimate.standardError;
+  return {
+    standardError: estimate.standardError,
+    tStat,
+    pValue: studentTPValue(tStat, estimate.df),
+    confidenceInterval: { level: CONFIDENCE_LEVEL, lower: estimate.beta - margin, upper: estimate.beta + margin },
+    residualStdDev: estimate.residualStdDev * Math.sqrt(periodsPerYear),
+    alphaTStat: estimate.alpha / estimate.alphaStandardError,
+  };
+}
 
 // Helper to calculate financial metrics
-function calculateFinancialMetrics(stockPrices: number[], marketPrices: number[]) {
+function calculateFinancialMetrics(stockPrices: number[], marketPrices: number[], options: MetricsOptions = {}) {
+  const { periodsPerYear = PERIODS_PER_YEAR.daily, betaMethod = "ols", excludeReturns, riskFreeRates } = options;
   if (stockPrices.length !== marketPrices.length || stockPrices.length < 2) return null;
 
+  const rawStockReturns: number[] = [];
   const stockReturns: number[] = [];
   const marketReturns: number[] = [];
+  const annualRates: number[] = [];
+  // Every period's excess returns, screened or not, for the lead/lag estimators
+  const allStockReturns: number[] = [];
+  const allMarketReturns: number[] = [];
+  const usable: boolean[] = [];
 
   for (let i = 1; i < stockPrices.length; i++) {
     const sRet = (stockPrices[i] - stockPrices[i - 1]) / stockPrices[i - 1];
     const mRet = (marketPrices[i] - marketPrices[i - 1]) / marketPrices[i - 1];
-    stockReturns.push(sRet);
-    marketReturns.push(mRet);
+    // Regress excess returns so the intercept is Jensen's alpha
+    const annualRate = riskFreeRates?.[i - 1] ?? 0;
+    const rf = periodRate(annualRate, periodsPerYear);
+    allStockReturns.push(sRet - rf);
+    allMarketReturns.push(mRet - rf);
+    usable.push(!excludeReturns?.has(i - 1));
+    if (excludeReturns?.has(i - 1)) continue;
+    rawStockReturns.push(sRet);
+    stockReturns.push(sRet - rf);
+    marketReturns.push(mRet - rf);
+    annualRates.push(annualRate);
   }
 
   const n = stockReturns.length;
@@ -104,116 +260,336 @@ function calculateFinancialMetrics(stockPrices: number[], marketPrices: number[]
 
   if (varianceMarket === 0 || varianceStock === 0) return null;
 
-  const beta = covariance / varianceMarket;
-  const alpha = meanStock - (beta * meanMarket);
+  const olsBeta = covariance / varianceMarket;
+  const olsAlpha = meanStock - (olsBeta * meanMarket);
+  // Correlation and R² always describe the synchronous fit, whichever beta estimator is used
   const correlation = covariance / (Math.sqrt(varianceStock) * Math.sqrt(varianceMarket));
   const rSquared = correlation ** 2;
-  const standardDeviation = Math.sqrt(varianceStock / (n - 1));
-  const volatility = standardDeviation * Math.sqrt(252);
+  // Volatility stays on raw returns; a time-varying risk-free rate would otherwise leak into it
+  const meanRaw = rawStockReturns.reduce((a, b) => a + b, 0) / n;
+  const varianceRaw = rawStockReturns.reduce((a, r) => a + (r - meanRaw) ** 2, 0);
+  const volatility = Math.sqrt(varianceRaw / (n - 1)) * Math.sqrt(periodsPerYear);
+
+  // Residual sum of squares of the OLS fit drives inference on alpha and beta
+  const residualSS = Math.max(varianceStock - olsBeta * covariance, 0);
+  const df = n - 2;
+  const residualStdDev = df > 0 ? Math.sqrt(residualSS / df) : 0;
+  const ols: BetaEstimate = {
+    beta: olsBeta,
+    alpha: olsAlpha,
+    standardError: residualStdDev / Math.sqrt(varianceMarket),
+    alphaStandardError: residualStdDev * Math.sqrt(1 / n + meanMarket ** 2 / varianceMarket),
+    residualStdDev,
+    df,
+  };
+
+  const estimate = betaMethod === "dimson" ? dimsonEstimate(allStockReturns, allMarketReturns, usable)
+    : betaMethod === "scholesWilliams" ? scholesWilliamsEstimate(allStockReturns, allMarketReturns, usable, ols)
+    : ols;
+  if (!estimate) return null;
+
+  const annualExcessReturn = meanStock * periodsPerYear;
+  const excessVolatility = Math.sqrt(varianceStock / (n - 1)) * Math.sqrt(periodsPerYear);
 
   return {
-    beta,
-    alpha,
+    beta: estimate.beta,
+    // Jensen's alpha, annualised from the per-period intercept
+    alpha: estimate.alpha * periodsPerYear,
     correlation,
     rSquared,
-    volatility
+    volatility,
+    sharpeRatio: annualExcessReturn / excessVolatility,
+    treynorRatio: estimate.beta !== 0 ? annualExcessReturn / estimate.beta : null,
+    riskFreeRate: annualRates.reduce((a, b) => a + b, 0) / n,
+    diagnostics: buildDiagnostics(estimate, periodsPerYear),
+    ...asymmetricRiskMetrics(stockReturns, marketReturns, periodsPerYear),
+    maxDrawdown: maxDrawdown(rawStockReturns),
   };
 }
 
-async function fetchHistoricalData(ticker: string, startDate: string, endDate: string, retries = 3) {
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      const result = await yf.historical(ticker, {
-        period1: new Date(startDate),
-        period2: new Date(endDate),
-        interval: '1d'
-      });
-      if (result && result.length > 0) return result;
-      if (attempt < retries) await new Promise(r => setTimeout(r, attempt * 1000));
-    } catch (error) {
-      console.error(`Error fetching data for ${ticker} (attempt ${attempt}/${retries}):`, error);
-      if (attempt < retries) await new Promise(r => setTimeout(r, attempt * 1000));
-    }
+// Betas conditioned on the market's direction, plus downside-only risk measures.
+// Returns are in excess of the risk-free rate, so the minimum acceptable return is rf.
+function asymmetricRiskMetrics(stockReturns: number[], marketReturns: number[], periodsPerYear: number) {
+  const conditionalBeta = (keep: (m: number) => boolean) => {
+    const idx = marketReturns.map((m, i) => keep(m) ? i : -1).filter(i => i >= 0);
+    if (idx.length < 3) return null;
+    return regressionSlope(idx.map(i => stockReturns[i]), idx.map(i => marketReturns[i]));
+  };
+
+  // Semi-deviation below the minimum acceptable return
+  const n = stockReturns.length;
+  const downsideVariance = stockReturns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / n;
+  const downsideVolatility = Math.sqrt(downsideVariance) * Math.sqrt(periodsPerYear);
+  const annualReturn = (stockReturns.reduce((a, b) => a + b, 0) / n) * periodsPerYear;
+
+  return {
+    downsideBeta: conditionalBeta(m => m < 0),
+    upsideBeta: conditionalBeta(m => m > 0),
+    downsideVolatility,
+    sortinoRatio: downsideVolatility > 0 ? annualReturn / downsideVolatility : null,
+  };
+}
+
+// Largest peak-to-trough fall of the wealth index built from the (screened) returns
+function maxDrawdown(returns: number[]) {
+  let wealth = 1;
+  let peak = 1;
+  let drawdown = 0;
+  for (const r of returns) {
+    wealth *= 1 + r;
+    peak = Math.max(peak, wealth);
+    drawdown = Math.min(drawdown, wealth / peak - 1);
   }
+  return drawdown;
+}
+
+// Windows of `window` returns (window + 1 prices), advancing `step` observations at a time
+function rollingWindows(length: number, window: number, step: number): { start: number; end: number }[] {
+  const windows: { start: number; end: number }[] = [];
+  for (let end = window; end < length; end += step) windows.push({ start: end - window, end });
+  return windows;
+}
+
+function sliceSeries(series: AlignedSeries, start: number, end: number): AlignedSeries {
+  return {
+    dates: series.dates.slice(start, end + 1),
+    stock: series.stock.slice(start, end + 1),
+    market: series.market.slice(start, end + 1),
+  };
+}
+
+// Observations of an aligned series whose dates fall within [from, to]
+function sliceByDate(series: AlignedSeries, from: string, to: string): AlignedSeries {
+  const sliced: AlignedSeries = { dates: [], stock: [], market: [] };
+  series.dates.forEach((date, i) => {
+    if (date >= from && date <= to) {
+      sliced.dates.push(date);
+      sliced.stock.push(series.stock[i]);
+      sliced.market.push(series.market[i]);
+    }
+  });
+  return sliced;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Yahoo reports debtToEquity as a percentage (45.3 = 0.453x)
+function debtToEquityRatio(debtToEquity: number | null | undefined): number | null {
+  return debtToEquity === null || debtToEquity === undefined ? null : debtToEquity / 100;
+}
+
+// Hamada: βL = βU · (1 + (1 − t) · D/E), assuming fixed debt and risk-free tax shields
+function hamadaLeverFactor(debtToEquity: number, taxRate: number) {
+  return 1 + (1 - taxRate) * debtToEquity;
+}
+
+// Harris–Pringle: βL = βU · (1 + D/E), assuming debt rebalanced to a constant leverage ratio
+function harrisPringleLeverFactor(debtToEquity: number) {
+  return 1 + debtToEquity;
+}
+
+// Why a D/E can't be used to lever or unlever: Yahoo reports a negative D/E for companies with
+// negative equity, where the lever factor can reach zero or flip sign. Null when it is usable.
+function unusableLeverage(debtToEquity: number, taxRate: number): string | null {
+  if (debtToEquity < 0) return "Negative D/E (negative shareholders' equity)";
+  if (hamadaLeverFactor(debtToEquity, taxRate) <= 0 || harrisPringleLeverFactor(debtToEquity) <= 0) return "Lever factor is not positive";
   return null;
 }
 
-async function getPeers(ticker: string, exchange: string, exchangeRate: number): Promise<{ slug: string; sector: string; industry: string; marketCap: number }[]> {
+function unleverBeta(beta: number | null, debtToEquity: number | null, taxRate: number) {
+  if (beta === null || debtToEquity === null || unusableLeverage(debtToEquity, taxRate)) return { hamada: null, harrisPringle: null };
+  return {
+    hamada: beta / hamadaLeverFactor(debtToEquity, taxRate),
+    harrisPringle: beta / harrisPringleLeverFactor(debtToEquity),
+  };
+}
+
+function releverBeta(unlevered: { hamada: number | null; harrisPringle: number | null }, debtToEquity: number, taxRate: number) {
+  return {
+    hamada: unlevered.hamada !== null ? unlevered.hamada * hamadaLeverFactor(debtToEquity, taxRate) : null,
+    harrisPringle: unlevered.harrisPringle !== null ? unlevered.harrisPringle * harrisPringleLeverFactor(debtToEquity) : null,
+  };
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+function marketPriceMap(marketData: PriceBar[], useAdjusted = true): Map<string, number> {
+  const dateMap = new Map<string, number>();
+  marketData.forEach(d => { if (d && d.close) dateMap.set(d.date.toISOString().split('T')[0], barPrice(d, useAdjusted)); });
+  return dateMap;
+}
+
+// Run the regression after screening the series for corporate-action gaps
+function screenedMetrics(series: AlignedSeries, options: SeriesMetricsOptions) {
+  const { dropSuspiciousReturns, riskFree, ...metricsOptions } = options;
+  const { flagged, excluded } = detectSuspiciousReturns(series, dropSuspiciousReturns);
+  const metrics = calculateFinancialMetrics(series.stock, series.market, {
+    ...metricsOptions,
+    excludeReturns: excluded,
+    riskFreeRates: riskFree?.(series.dates),
+  });
+  return { metrics, suspiciousReturns: flagged };
+}
+
+type RiskFreeSource = CalculateBetaRequest["riskFreeSource"];
+
+// Resolve the requested risk-free source to a per-period rate lookup; undefined means rf = 0
+function riskFreeLookup(source: RiskFreeSource, constantRate: number | undefined, yields: ReturnType<typeof loadTbillYields>) {
+  if (source === "constant" && constantRate !== undefined) {
+    return (dates: string[]) => new Array<number>(Math.max(dates.length - 1, 0)).fill(constantRate);
+  }
+  if (source === "tbill" && yields) return (dates: string[]) => tbillRatesForPeriods(dates, yields);
+  return undefined;
+}
+
+// Blume (1971): partial reversion of the raw beta toward the market beta of 1
+function blumeAdjustedBeta(beta: number) {
+  return 0.67 * beta + 0.33;
+}
+
+// Cross-sectional mean and variance of the peer betas, used as the Vasicek prior
+function betaPrior(betas: number[]): { mean: number; variance: number } | null {
+  if (betas.length < 2) return null;
+  const mean = betas.reduce((a, b) => a + b, 0) / betas.length;
+  const variance = betas.reduce((a, b) => a + (b - mean) ** 2, 0) / (betas.length - 1);
+  return { mean, variance };
+}
+
+// Vasicek (1973): shrink the raw beta toward the prior mean, weighting each by the
+// other's variance so that noisier estimates move further toward the peer mean
+function vasicekAdjustedBeta(beta: number, standardError: number | undefined, prior: { mean: number; variance: number } | null) {
+  if (!prior || standardError === undefined) return null;
+  const samplingVariance = standardError ** 2;
+  if (prior.variance + samplingVariance === 0) return null;
+  const weight = prior.variance / (prior.variance + samplingVariance);
+  return weight * beta + (1 - weight) * prior.mean;
+}
+
+// A missing figure counts as 0, as before; null only when there is no rate to convert at
+function inInr(value: number | undefined, fx: FxRate | null): number | null {
+  return fx ? (value || 0) * fx.rate : null;
+}
+
+// EV / revenue with each side in INR at its own rate
+function evRevenue(ev: number | undefined, priceFx: FxRate | null, revenue: number | undefined, financialFx: FxRate | null) {
+  if (!ev || !revenue || !priceFx || !financialFx) return undefined;
+  return (ev * priceFx.rate) / (revenue * financialFx.rate);
+}
+
+// Identifies a company across its listings; tickers the security master doesn't know stand alone
+function companyKey(symbol: string): string {
+  const security = findSecurity(symbol);
+  return security ? `id:${security.id}` : symbol.toUpperCase();
+}
+
+interface DiscoveredPeer {
+  slug: string;
+  sector: string;
+  industry: string;
+  marketCap: number;
+  similarityScore?: number;
+  confidence?: PeerConfidence;
+  keywords?: string[];
+}
+
+// `skip` holds companyKey()s of companies the caller has already placed or ruled out
+async function getPeers(ticker: string, exchange: Exchange, skip = new Set<string>()): Promise<DiscoveredPeer[]> {
   try {
-    const summary = await yf.quoteSummary(ticker, { modules: ['assetProfile', 'summaryDetail'] }).catch(() => null);
+    const summary = await dataProvider.quoteSummary(ticker, { modules: ['assetProfile', 'summaryDetail'] }).catch(() => null);
     if (!summary?.assetProfile) return [];
 
     const targetIndustry = summary.assetProfile.industry || "";
-    const targetSuffix = exchange === "NSE" ? ".NS" : ".BO"; // always use same exchange as target
-    const tickerBase = ticker.split('.')[0];
-    const excelMatch = industryList.find(i => i.symbol === tickerBase);
-    const excelIndustry = excelMatch?.industry;
+    const target = findSecurity(ticker);
+    const excelIndustry = target?.industry ?? undefined;
 
-    // Collect raw candidates — may have mixed .NS/.BO/.BO duplicates
+    // Collect raw candidates as Yahoo tickers — the same company may appear on both exchanges
     let rawCandidates: string[] = [];
-    const recommendations = await yf.recommendationsBySymbol(ticker).catch(() => null);
+    const recommendations = await dataProvider.recommendationsBySymbol(ticker).catch(() => null);
     rawCandidates = recommendations?.recommendedSymbols?.map((r: any) => r.symbol) || [];
 
     if (excelIndustry) {
-      const industryPeers = industryList
-        .filter(item => item.industry === excelIndustry && item.symbol !== tickerBase)
-        .map(item => `${item.symbol}${targetSuffix}`);
+      const industryPeers = securitiesInIndustry(excelIndustry).map(s => preferredListing(s, exchange));
       rawCandidates = [...rawCandidates, ...industryPeers];
     }
 
-    // DEDUPLICATE by base symbol — if both INFY.NS and INFY.BO appear, keep only targetSuffix version
-    const seenBases = new Set<string>();
+    // DEDUPLICATE by company via the security master, using its listing on the target's exchange
+    // where it has one (BSE trades by scrip code, so swapping .NS for .BO is not enough).
+    // Tickers the master doesn't know are used as given.
+    const seenSecurities = new Set<string>(skip);
     const candidateSymbols: string[] = [];
     for (const sym of rawCandidates) {
-      const base = sym.split('.')[0];
-      if (base === tickerBase) continue; // skip self
-      if (seenBases.has(base)) continue; // skip duplicate exchange
-      seenBases.add(base);
-      // Normalize to same exchange as the target stock
-      candidateSymbols.push(`${base}${targetSuffix}`);
+      const security = findSecurity(sym);
+      if (security ? security.id === target?.id : sym.toUpperCase() === ticker.toUpperCase()) continue; // skip self
+      const key = companyKey(sym);
+      if (seenSecurities.has(key)) continue;
+      seenSecurities.add(key);
+      candidateSymbols.push(security ? preferredListing(security, exchange) : sym);
     }
 
     const peerSummaries = await Promise.all(
-      candidateSymbols.slice(0, 20).map(s => yf.quoteSummary(s, { modules: ['assetProfile', 'summaryDetail', 'financialData'] }).catch(() => null))
+      candidateSymbols.slice(0, 20).map(s => dataProvider.quoteSummary(s, { modules: ['assetProfile', 'summaryDetail', 'financialData'] }).catch(() => null))
     );
 
     const verifiedPeers = await Promise.all(candidateSymbols.slice(0, 20).map(async (symbol, i) => {
       const s = peerSummaries[i];
       if (!s?.assetProfile) return null;
 
-      const symbolBase = symbol.split('.')[0];
-      const isSameIndustry = s.assetProfile.industry === targetIndustry ||
-        (excelIndustry && industryList.find(item => item.symbol === symbolBase)?.industry === excelIndustry);
-      if (!isSameIndustry) return null;
+      const industryMatch = s.assetProfile.industry === targetIndustry ||
+        (!!excelIndustry && findSecurity(symbol)?.industry === excelIndustry);
 
-      const quote = await yf.quote(symbol).catch(() => null);
+      const quote = await dataProvider.quote(symbol).catch(() => null);
       const peerCurrency = quote?.currency || s.financialData?.financialCurrency || 'INR';
-      const peerConversionFactor = peerCurrency === 'USD' ? exchangeRate : 1;
-      const peerMarketCap = (s.summaryDetail?.marketCap || 0) * peerConversionFactor;
+      const peerFx = await spotInrRate(peerCurrency);
+      const peerMarketCap = (s.summaryDetail?.marketCap || 0) * (peerFx?.rate ?? 0);
 
       return {
-        slug: symbol,
+        symbol,
+        industryMatch,
         sector: `${s.assetProfile.sector || 'Unknown'} > ${s.assetProfile.industry || 'Unknown'}`,
         industry: s.assetProfile.industry || 'Unknown',
         marketCap: peerMarketCap
       };
     }));
 
-    return verifiedPeers.filter((p): p is any => p !== null).sort((a, b) => b.marketCap - a.marketCap).slice(0, 10);
+    // Most similar businesses first; industry match alone when descriptions aren't embedded
+    const candidates = verifiedPeers.filter((p): p is NonNullable<typeof p> => p !== null);
+    return (await rankPeers(ticker, candidates)).map(p => ({
+      slug: p.symbol,
+      sector: p.sector,
+      industry: p.industry,
+      marketCap: p.marketCap,
+      similarityScore: p.similarityScore,
+      confidence: p.confidence,
+      keywords: p.keywords,
+    }));
   } catch (error) {
     console.error("Error fetching peers:", error);
     return [];
   }
 }
 
+// Admin endpoints are disabled unless ADMIN_TOKEN is set, and then require it in x-admin-token
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token || req.header('x-admin-token') !== token) {
+    return res.status(401).json({ message: "Admin token required." });
+  }
+  next();
+}
+
 export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
   // Market overview: live Nifty/Sensex + financial news
   app.get('/api/market/overview', async (req, res) => {
     try {
       const [nifty, sensex, newsData] = await Promise.all([
-        yf.quote('^NSEI').catch(() => null),
-        yf.quote('^BSESN').catch(() => null),
-        yf.search('India stock market NSE BSE', { newsCount: 12, enableFuzzyQuery: false }).catch(() => null),
+        dataProvider.quote('^NSEI').catch(() => null),
+        dataProvider.quote('^BSESN').catch(() => null),
+        dataProvider.search('India stock market NSE BSE', { newsCount: 12, enableFuzzyQuery: false }).catch(() => null),
       ]);
       res.json({
         indices: {
@@ -243,39 +619,125 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  app.get(api.tickers.search.path, async (req, res) => {
+    try {
+      const { q, limit } = api.tickers.search.input.parse(req.query);
+      res.json(await searchTickers(listedCompanies(), q, limit));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(api.fundamentals.history.path, async (req, res) => {
+    try {
+      const { metric, exchange, from, to } = api.fundamentals.history.input.parse(req.query);
+      res.json(await fundamentalHistory(resolveTicker(req.params.ticker, exchange), metric, from, to));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(api.benchmarks.list.path, (_req, res) => {
+    res.json(BENCHMARKS);
+  });
+
   app.post(api.beta.calculate.path, async (req, res) => {
     try {
-      const { ticker, exchange, startDate, endDate, period } = api.beta.calculate.input.parse(req.body);
-      const suffix = exchange === "NSE" ? ".NS" : ".BO";
-      const marketTicker = exchange === "NSE" ? "^NSEI" : "^BSESN";
-      const fullTicker = ticker.endsWith(suffix) ? ticker : `${ticker}${suffix}`;
+      const {
+        ticker, exchange, benchmark, startDate, endDate, period, frequency, betaMethod,
+        useAdjustedPrices, dropSuspiciousReturns, taxRate, targetDebtToEquity, riskFreeSource, riskFreeRate, customPeers,
+        preferExchangeBars, includePeers, excludePeers, peerGroupId, peerFilters,
+      } = api.beta.calculate.input.parse(req.body);
+      const index = benchmark ? getBenchmark(benchmark) : defaultBenchmark(exchange);
+      if (!index) return res.status(400).json({ message: `Unknown benchmark "${benchmark}".`, field: "benchmark" });
+      if (riskFreeSource === "constant" && riskFreeRate === undefined) {
+        return res.status(400).json({ message: "A constant risk-free rate is required.", field: "riskFreeRate" });
+      }
+      const tbillYields = riskFreeSource === "tbill" ? loadTbillYields() : null;
+      if (riskFreeSource === "tbill" && !tbillYields) {
+        return res.status(400).json({ message: "No T-bill yield file is available on the server.", field: "riskFreeSource" });
+      }
+      const seriesOptions: SeriesMetricsOptions = {
+        periodsPerYear: PERIODS_PER_YEAR[frequency],
+        betaMethod,
+        dropSuspiciousReturns,
+        riskFree: riskFreeLookup(riskFreeSource, riskFreeRate, tbillYields),
+      };
+      const customTarget = isCustomSymbol(ticker) ? await storage.getCustomSeries(ticker.toUpperCase()) : undefined;
+      if (isCustomSymbol(ticker) && !customTarget) {
+        return res.status(400).json({ message: `No uploaded series "${ticker}".`, field: "ticker" });
+      }
+      const peerGroup = peerGroupId !== undefined ? await storage.getPeerGroup(peerGroupId) : undefined;
+      if (peerGroupId !== undefined && !peerGroup) {
+        return res.status(400).json({ message: `No peer group ${peerGroupId}.`, field: "peerGroupId" });
+      }
+      const groupTickers = peerGroup?.tickers ?? [];
+      // Uploaded series named in includePeers or the peer group are handled as custom peers
+      const customPeerSymbols = Array.from(new Set([...(customPeers || []), ...[...groupTickers, ...(includePeers || [])].filter(p => isCustomSymbol(p.trim()))]
+        .map(p => p.trim().toUpperCase()).map(p => isCustomSymbol(p) ? p : `${CUSTOM_SYMBOL_PREFIX}${p}`)));
+      const customPeerSeries = await Promise.all(customPeerSymbols.map(s => storage.getCustomSeries(s)));
+      const missingPeers = customPeerSymbols.filter((_, i) => !customPeerSeries[i]);
+      if (missingPeers.length > 0) {
+        return res.status(400).json({ message: `No uploaded series for ${missingPeers.join(', ')}.`, field: "customPeers" });
+      }
+      const customNames = new Map(customPeerSeries.map(s => [s!.symbol, s!.name]));
+      const marketTicker = index.symbol;
+      const fullTicker = customTarget ? customTarget.symbol : resolveTicker(ticker, exchange);
 
-      const [marketData, stockData, quote, financials, usdInr] = await Promise.all([
+      // Uploaded series have prices only; there is no quote or fundamentals to fetch
+      const [marketData, stockHistory, quote, financials] = await Promise.all([
         fetchHistoricalData(marketTicker, startDate, endDate),
-        fetchHistoricalData(fullTicker, startDate, endDate),
-        yf.quote(fullTicker).catch(() => null),
-        yf.quoteSummary(fullTicker, { modules: ['financialData', 'defaultKeyStatistics', 'summaryDetail', 'assetProfile'] }).catch(() => null),
-        yf.quote('USDINR=X').catch(() => null)
+        fetchPriceHistory(fullTicker, startDate, endDate, preferExchangeBars),
+        customTarget ? null : dataProvider.quote(fullTicker).catch(() => null),
+        customTarget ? null : dataProvider.quoteSummary(fullTicker, { modules: ['financialData', 'defaultKeyStatistics', 'summaryDetail', 'assetProfile'] }).catch(() => null),
       ]);
 
-      const exchangeRate = usdInr?.regularMarketPrice || 83.0;
+      const unavailable = () => yahooScheduler.circuitOpen
+        ? res.status(503).json({ message: "Market data provider is temporarily unavailable. Try again shortly." })
+        : res.status(404).json({ message: "Failed to fetch market or stock data." });
+      if (!marketData || marketData.length === 0) return unavailable();
 
-      if (!marketData || marketData.length === 0 || !stockData || stockData.length === 0) {
-        return res.status(404).json({ message: "Failed to fetch market or stock data." });
-      }
-
-      const dateMap = new Map<string, number>();
-      marketData.forEach(d => { if (d && d.close) dateMap.set(d.date.toISOString().split('T')[0], d.close); });
+      const dateMap = marketPriceMap(marketData, useAdjustedPrices);
+      const minPoints = MIN_ALIGNED_POINTS[frequency];
+      const regress = (history: NonNullable<typeof stockHistory>) => {
+        const aligned = resampleSeries(alignPrices(history.bars, dateMap, useAdjustedPrices), frequency);
+        return { history, aligned, ...screenedMetrics(aligned, seriesOptions) };
+      };
+      const sufficient = (r: ReturnType<typeof regress> | null) => !!r?.metrics && r.aligned.stock.length >= minPoints;
 
-      const sPrices: number[] = [], mPrices: number[] = [];
-      stockData.forEach(d => {
-        const dateStr = d.date.toISOString().split('T')[0];
-        const mPrice = dateMap.get(dateStr);
-        if (mPrice && d.close) { sPrices.push(d.close); mPrices.push(mPrice); }
-      });
+      let betaSource: BetaSource = "regression";
+      let betaSourceNote: string | null = null;
+      let regressionTicker: string | null = fullTicker;
+      let regression = stockHistory ? regress(stockHistory) : null;
+      const primaryPoints = regression?.aligned.stock.length ?? 0;
 
-      const metrics = calculateFinancialMetrics(sPrices, mPrices);
-      if (!metrics) return res.status(400).json({ message: "Insufficient data points." });
+      // Thin history on this listing (recent migration, long suspension): try the company's other exchange
+      if (!sufficient(regression) && !customTarget) {
+        const alternate = alternateListing(fullTicker);
+        const alternateHistory = alternate ? await fetchPriceHistory(alternate, startDate, endDate, preferExchangeBars) : null;
+        const alternateRegression = alternateHistory ? regress(alternateHistory) : null;
+        if (alternate && sufficient(alternateRegression)) {
+          regression = alternateRegression;
+          betaSource = "alternateListing";
+          regressionTicker = alternate;
+          betaSourceNote = `Regressed on ${alternate}: ${fullTicker} has ${primaryPoints} aligned prices, below the minimum of ${minPoints}.`;
+        }
+      }
+      if (!sufficient(regression)) {
+        betaSource = "peerProxy";
+        regressionTicker = null;
+      }
+      const metrics = betaSource === "peerProxy" ? null : regression!.metrics;
+      const aligned = regression?.aligned ?? null;
+      const suspiciousReturns = betaSource === "peerProxy" ? [] : regression!.suspiciousReturns;
 
       // Trading currency (quote.currency) = currency of the stock price, e.g. INR for NSE stocks
       // Financial currency (financialData.financialCurrency) = currency financials are reported in, e.g. USD for Wipro
@@ -283,33 +745,62 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       const tradingCurrency = quote?.currency || 'INR';
       const financialCurrency = financials?.financialData?.financialCurrency || tradingCurrency;
 
-      const priceFactor = tradingCurrency === 'USD' ? exchangeRate : 1;       // for market cap, EV (price-based)
-      const financialFactor = financialCurrency === 'USD' ? exchangeRate : 1; // for revenue, EBITDA (report-based)
+      // Price-based figures (market cap, EV) convert at today's rate; reported figures (revenue,
+      // EBITDA) at the rate on the date they were reported to
+      const revenueDate = reportingDate(financials?.defaultKeyStatistics);
+      const [priceFx, financialFx] = await Promise.all([
+        spotInrRate(tradingCurrency),
+        reportingInrRate(financialCurrency, revenueDate),
+      ]);
 
       // Fetch asset profile for industry/sector info
 
       const targetData = {
         ticker: fullTicker,
-        name: quote?.longName || quote?.shortName || ticker,
-        marketIndex: exchange === "NSE" ? "NIFTY 50" : "BSE SENSEX",
+        name: quote?.longName || quote?.shortName || customTarget?.name || ticker,
+        marketIndex: index.name,
+        benchmark: index.id,
         industry: financials?.assetProfile?.industry || null,
         sector: financials?.assetProfile?.sector || null,
         exchange,
-        beta: metrics.beta,
-        volatility: metrics.volatility,
-        alpha: metrics.alpha,
-        correlation: metrics.correlation,
-        rSquared: metrics.rSquared,
+        betaMethod,
+        betaSource,
+        regressionTicker,
+        volatility: metrics?.volatility,
+        alpha: metrics?.alpha,
+        correlation: metrics?.correlation,
+        rSquared: metrics?.rSquared ?? null,
+        diagnostics: metrics?.diagnostics ?? null,
+        downsideBeta: metrics?.downsideBeta ?? null,
+        upsideBeta: metrics?.upsideBeta ?? null,
+        downsideVolatility: metrics?.downsideVolatility ?? null,
+        sortinoRatio: metrics?.sortinoRatio ?? null,
+        maxDrawdown: metrics?.maxDrawdown ?? null,
+        sharpeRatio: metrics?.sharpeRatio ?? null,
+        treynorRatio: metrics?.treynorRatio ?? null,
+        riskFreeSource,
+        riskFreeRate: metrics?.riskFreeRate,
         period: period || "5Y",
-        dataPoints: sPrices.length,
-        marketCap: (quote?.marketCap || 0) * priceFactor,
-        revenue: (financials?.financialData?.totalRevenue || 0) * financialFactor,
-        enterpriseValue: (financials?.defaultKeyStatistics?.enterpriseValue || 0) * priceFactor,
-        evRevenueMultiple: (financials?.defaultKeyStatistics?.enterpriseValue && financials?.financialData?.totalRevenue) ? (financials.defaultKeyStatistics.enterpriseValue / (financials.financialData.totalRevenue * financialFactor / priceFactor)) : undefined,
+        frequency,
+        startDate,
+        endDate,
+        useAdjustedPrices,
+        dropSuspiciousReturns,
+        suspiciousReturns,
+        preferExchangeBars,
+        priceSource: regression?.history.source,
+        dataPoints: aligned?.stock.length ?? 0,
+        marketCap: inInr(quote?.marketCap, priceFx),
+        revenue: inInr(financials?.financialData?.totalRevenue, financialFx),
+        revenueDate: revenueDate ? revenueDate.toISOString().split('T')[0] : null,
+        priceFx,
+        financialFx,
+        enterpriseValue: inInr(financials?.defaultKeyStatistics?.enterpriseValue, priceFx),
+        evRevenueMultiple: evRevenue(financials?.defaultKeyStatistics?.enterpriseValue, priceFx, financials?.financialData?.totalRevenue, financialFx),
         peRatio: financials?.summaryDetail?.trailingPE ?? null,
         pbRatio: financials?.defaultKeyStatistics?.priceToBook ?? null,
         dividendYield: financials?.summaryDetail?.dividendYield ?? null,
-        ebitda: (financials?.financialData?.ebitda || 0) * financialFactor,
+        ebitda: inInr(financials?.financialData?.ebitda, financialFx),
         // Use ?? null (not || null) so that genuine 0 values are preserved
         debtToEquity: financials?.financialData?.debtToEquity ?? null,
         profitMargin: financials?.financialData?.profitMargins ?? null,
@@ -318,77 +809,472 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         returnOnEquity: (financials?.financialData as any)?.returnOnEquity ?? null,
         returnOnAssets: (financials?.financialData as any)?.returnOnAssets ?? null,
         currentRatio: (financials?.financialData as any)?.currentRatio ?? null,
-        sourceUrl: `https://finance.yahoo.com/quote/${fullTicker}`,
+        sourceUrl: customTarget ? null : `https://finance.yahoo.com/quote/${fullTicker}`,
       };
 
-      const peerList = await getPeers(fullTicker, exchange, exchangeRate);
+      // Manual overrides: excluded companies are dropped everywhere, forced ones skip discovery's
+      // industry check. Both match by company, so either listing of a stock can be named.
+      const excludedKeys = new Set((excludePeers || []).map(p => companyKey(isCustomSymbol(p.trim()) ? p.trim() : resolveTicker(p, exchange))));
+      const listedForced = (tickers: string[]) => tickers.filter(p => !isCustomSymbol(p.trim())).map(p => resolveTicker(p, exchange));
+      const groupKeys = new Set([...groupTickers.map(p => p.trim().toUpperCase()), ...listedForced(groupTickers)].map(companyKey));
+      const manualSymbols = Array.from(new Set([...listedForced(groupTickers), ...listedForced(includePeers || [])]))
+        .filter(symbol => companyKey(symbol) !== companyKey(fullTicker) && !excludedKeys.has(companyKey(symbol)));
+      const placedKeys = new Set([...Array.from(excludedKeys), ...manualSymbols.map(companyKey)]);
+      const forcedSource = (symbol: string) => groupKeys.has(companyKey(symbol)) ? 'group' as const : 'manual' as const;
+
+      // Automatic discovery needs a listed target and is replaced by a peer group; forced and
+      // uploaded peers are always appended. Screens that need betas see every ranked candidate.
+      const discoveredPeers = customTarget || peerGroup ? [] : await getPeers(fullTicker, exchange, placedKeys);
+      const discoveryPool = screensAfterBeta(peerFilters) ? discoveredPeers : discoveredPeers.slice(0, peerFilters?.maxPeers ?? DEFAULT_MAX_PEERS);
+      const peerList = [
+        ...discoveryPool.map(p => ({ ...p, peerSource: 'discovered' as const })),
+        ...manualSymbols.map(symbol => ({ slug: symbol, sector: '', industry: '', marketCap: 0, peerSource: forcedSource(symbol) })),
+        ...customPeerSymbols
+          .filter(symbol => symbol !== fullTicker && !excludedKeys.has(companyKey(symbol)))
+          .map(symbol => ({ slug: symbol, sector: 'Custom > Uploaded series', industry: 'Custom', marketCap: 0, peerSource: forcedSource(symbol) })),
+      ];
       const peerResults = await Promise.all(peerList.map(async (peer) => {
-        const [pData, pQuote, pFin] = await Promise.all([
-          fetchHistoricalData(peer.slug, startDate, endDate),
-          yf.quote(peer.slug).catch(() => null),
-          yf.quoteSummary(peer.slug, { modules: ['financialData', 'defaultKeyStatistics', 'summaryDetail'] }).catch(() => null)
+        const isCustom = customNames.has(peer.slug);
+        const isForced = peer.peerSource !== 'discovered' && !isCustom;
+        const [pHistory, pQuote, pFin] = await Promise.all([
+          fetchPriceHistory(peer.slug, startDate, endDate, preferExchangeBars),
+          isCustom ? null : dataProvider.quote(peer.slug).catch(() => null),
+          isCustom ? null : dataProvider.quoteSummary(peer.slug, {
+            // Forced peers bypass discovery, which is where sector and industry normally come from
+            modules: isForced ? ['financialData', 'defaultKeyStatistics', 'summaryDetail', 'assetProfile'] : ['financialData', 'defaultKeyStatistics', 'summaryDetail'],
+          }).catch(() => null)
         ]);
 
-        if (!pData || pData.length < 2) return null;
-        const pSPrices: number[] = [], pMPrices: number[] = [];
-        pData.forEach(d => {
-          const dateStr = d.date.toISOString().split('T')[0];
-          const mPrice = dateMap.get(dateStr);
-          if (mPrice && d.close) { pSPrices.push(d.close); pMPrices.push(mPrice); }
-        });
+        // A forced peer is reported even without a usable price history, with the reason in `error`
+        const pData = pHistory?.bars;
+        if ((!pData || pData.length < 2) && !isForced) return null;
+        const pAligned = resampleSeries(alignPrices(pData ?? [], dateMap, useAdjustedPrices), frequency);
 
-        const pMet = calculateFinancialMetrics(pSPrices, pMPrices);
+        const { metrics: pMet, suspiciousReturns: pSuspicious } = screenedMetrics(pAligned, seriesOptions);
         const pTradingCurr = pQuote?.currency || 'INR';
         const pFinancialCurr = pFin?.financialData?.financialCurrency || pTradingCurr;
-        const pPriceFact = pTradingCurr === 'USD' ? exchangeRate : 1;
-        const pFinancialFact = pFinancialCurr === 'USD' ? exchangeRate : 1;
+        const pRevenueDate = reportingDate(pFin?.defaultKeyStatistics);
+        const [pPriceFx, pFinancialFx] = await Promise.all([
+          spotInrRate(pTradingCurr),
+          reportingInrRate(pFinancialCurr, pRevenueDate),
+        ]);
 
         return {
           ticker: peer.slug,
-          name: pQuote?.shortName || peer.slug,
-          industry: peer.industry,
+          name: pQuote?.shortName || customNames.get(peer.slug) || peer.slug,
+          industry: isForced ? pFin?.assetProfile?.industry || findSecurity(peer.slug)?.industry || null : peer.industry,
           beta: pMet?.beta ?? null,
+          betaMethod,
+          diagnostics: pMet?.diagnostics ?? null,
           volatility: pMet?.volatility ?? null,
           alpha: pMet?.alpha ?? null,
           correlation: pMet?.correlation ?? null,
           rSquared: pMet?.rSquared ?? null,
-          marketCap: (pQuote?.marketCap || 0) * pPriceFact,
-          revenue: (pFin?.financialData?.totalRevenue || 0) * pFinancialFact,
-          enterpriseValue: (pFin?.defaultKeyStatistics?.enterpriseValue || 0) * pPriceFact,
-          evRevenueMultiple: (pFin?.defaultKeyStatistics?.enterpriseValue && pFin?.financialData?.totalRevenue) ? (pFin.defaultKeyStatistics.enterpriseValue / (pFin.financialData.totalRevenue * pFinancialFact / pPriceFact)) : undefined,
+          downsideBeta: pMet?.downsideBeta ?? null,
+          upsideBeta: pMet?.upsideBeta ?? null,
+          downsideVolatility: pMet?.downsideVolatility ?? null,
+          sortinoRatio: pMet?.sortinoRatio ?? null,
+          maxDrawdown: pMet?.maxDrawdown ?? null,
+          sharpeRatio: pMet?.sharpeRatio ?? null,
+          treynorRatio: pMet?.treynorRatio ?? null,
+          marketCap: inInr(pQuote?.marketCap, pPriceFx) ?? 0,
+          revenue: inInr(pFin?.financialData?.totalRevenue, pFinancialFx) ?? undefined,
+          revenueDate: pRevenueDate ? pRevenueDate.toISOString().split('T')[0] : undefined,
+          financialFx: pFinancialFx,
+          enterpriseValue: inInr(pFin?.defaultKeyStatistics?.enterpriseValue, pPriceFx) ?? undefined,
+          evRevenueMultiple: evRevenue(pFin?.defaultKeyStatistics?.enterpriseValue, pPriceFx, pFin?.financialData?.totalRevenue, pFinancialFx),
           peRatio: pFin?.summaryDetail?.trailingPE ?? null,
           pbRatio: pFin?.defaultKeyStatistics?.priceToBook ?? null,
           dividendYield: pFin?.summaryDetail?.dividendYield ?? null,
-          ebitda: (pFin?.financialData?.ebitda || 0) * pFinancialFact,
+          ebitda: inInr(pFin?.financialData?.ebitda, pFinancialFx) ?? undefined,
           // Use ?? null so genuine 0 values (e.g. zero-debt companies) are preserved
           debtToEquity: pFin?.financialData?.debtToEquity ?? null,
+          droppedReturnDates: pSuspicious.filter(r => r.dropped).map(r => r.date),
           profitMargin: pFin?.financialData?.profitMargins ?? null,
           grossMargin: (pFin?.financialData as any)?.grossMargins ?? null,
           operatingMargin: (pFin?.financialData as any)?.operatingMargins ?? null,
           returnOnEquity: (pFin?.financialData as any)?.returnOnEquity ?? null,
           returnOnAssets: (pFin?.financialData as any)?.returnOnAssets ?? null,
           currentRatio: (pFin?.financialData as any)?.currentRatio ?? null,
-          sector: peer.sector,
-          sourceUrl: `https://finance.yahoo.com/quote/${peer.slug}`,
+          sector: isForced ? `${pFin?.assetProfile?.sector || 'Unknown'} > ${pFin?.assetProfile?.industry || 'Unknown'}` : peer.sector,
+          sourceUrl: isCustom ? undefined : `https://finance.yahoo.com/quote/${peer.slug}`,
+          customSeries: isCustom || undefined,
+          priceSource: pHistory?.source,
+          dataPoints: pAligned.stock.length,
+          avgTradedValue: isCustom ? null : averageTradedValue(pData ?? [], pPriceFx?.rate),
+          peerSource: peer.peerSource,
+          error: pMet ? undefined : 'Not enough price history in the window for a beta',
+          similarityScore: 'similarityScore' in peer ? peer.similarityScore : undefined,
+          confidence: 'confidence' in peer ? peer.confidence : undefined,
+          keywords: 'keywords' in peer ? peer.keywords : undefined,
         };
       }));
 
-      // Filter: remove nulls AND peers with no market cap data (bad Yahoo Finance returns)
-      const finalPeers = peerResults
-        .filter((p): p is NonNullable<typeof p> => p !== null && p.marketCap > 0)
-        .sort((a, b) => b.marketCap - a.marketCap);
-      
+      // Discovered peers lose those without price history or market cap data (bad Yahoo Finance
+      // returns), then go through the requested screens. Peers from the group or named by the
+      // analyst, including uploaded series, are kept regardless. Discovery order (similarity
+      // rank) is kept, with chosen peers after.
+      const { kept: discoveredKept, screening: peerScreening } = screenPeers(
+        peerResults.slice(0, discoveryPool.length),
+        discoveredPeers.length - discoveryPool.length,
+        peerFilters,
+        targetData.marketCap,
+      );
+      const screenedPeers = [
+        ...discoveredKept,
+        ...peerResults.slice(discoveryPool.length).filter((p): p is NonNullable<typeof p> => p !== null),
+      ];
+
+      // Vasicek prior comes from the discovered peer set's beta distribution; manual, group and
+      // uploaded peers stand in only when nothing was discovered
+      const discoveredOnly = screenedPeers.filter(p => p.peerSource === "discovered");
+      const priorPeers = discoveredOnly.length > 0 ? discoveredOnly : screenedPeers;
+      const prior = betaPrior(priorPeers.map(p => p.beta).filter((b): b is number => b !== null));
+      const finalPeers = screenedPeers.map(p => ({
+        ...p,
+        adjustedBetas: {
+          blume: p.beta !== null ? blumeAdjustedBeta(p.beta) : null,
+          vasicek: p.beta !== null ? vasicekAdjustedBeta(p.beta, p.diagnostics?.standardError, prior) : null,
+        },
+        unleveredBeta: unleverBeta(p.beta, debtToEquityRatio(p.debtToEquity), taxRate),
+      }));
+
+      // Bottom-up beta: industry unlevered beta relevered at the target's own and a chosen capital structure
+      const unleveredHamada = finalPeers.map(p => p.unleveredBeta.hamada).filter((b): b is number => b !== null);
+      const unleveredHP = finalPeers.map(p => p.unleveredBeta.harrisPringle).filter((b): b is number => b !== null);
+      const industryUnlevered = { hamada: median(unleveredHamada), harrisPringle: median(unleveredHP) };
+      const currentDebtToEquity = debtToEquityRatio(targetData.debtToEquity);
+      const leverageSkipped = finalPeers.flatMap(p => {
+        const ratio = p.beta !== null ? debtToEquityRatio(p.debtToEquity) : null;
+        const reason = ratio !== null ? unusableLeverage(ratio, taxRate) : null;
+        return reason ? [{ ticker: p.ticker, reason }] : [];
+      });
+      const bottomUpBeta = {
+        taxRate,
+        peerCount: unleveredHamada.length,
+        skippedPeers: leverageSkipped,
+        unlevered: {
+          hamada: { median: industryUnlevered.hamada, mean: mean(unleveredHamada) },
+          harrisPringle: { median: industryUnlevered.harrisPringle, mean: mean(unleveredHP) },
+        },
+        currentDebtToEquity,
+        releveredAtCurrent: currentDebtToEquity !== null && !unusableLeverage(currentDebtToEquity, taxRate)
+          ? releverBeta(industryUnlevered, currentDebtToEquity, taxRate)
+          : { hamada: null, harrisPringle: null },
+        targetDebtToEquity: targetDebtToEquity ?? null,
+        releveredAtTarget: targetDebtToEquity !== undefined ? releverBeta(industryUnlevered, targetDebtToEquity, taxRate) : null,
+      };
+      // No usable regression on either listing: report the peer median, labelled as a proxy
+      let beta: number;
+      if (metrics) {
+        beta = metrics.beta;
+      } else {
+        const peerBetas = finalPeers.map(p => p.beta).filter((b): b is number => b !== null);
+        const proxy = median(peerBetas);
+        if (proxy === null) {
+          if (!stockHistory) return unavailable();
+          return res.status(400).json({ message: `Insufficient data points: ${primaryPoints} aligned prices, and no peers to proxy from.` });
+        }
+        beta = proxy;
+        betaSourceNote = `Median beta of ${peerBetas.length} peers: ${fullTicker} has ${primaryPoints} aligned prices, below the minimum of ${minPoints}, and no alternate listing with enough history.`;
+      }
+      const adjustedBetas = {
+        blume: metrics ? blumeAdjustedBeta(beta) : null,
+        vasicek: metrics ? vasicekAdjustedBeta(beta, metrics.diagnostics?.standardError, prior) : null,
+      };
+
       await storage.createSearch({
         ticker: fullTicker,
         exchange,
         startDate,
         endDate,
-        beta: metrics.beta,
+        beta,
         peers: finalPeers as any
       });
+      // Uploaded series have no fundamentals to track
+      await recordFundamentals([...(customTarget ? [] : [targetData]), ...finalPeers.filter(p => !p.customSeries)]);
+
+      res.json({
+        ...targetData, beta, betaSourceNote, adjustedBetas, bottomUpBeta,
+        peerGroup: peerGroup ? { id: peerGroup.id, name: peerGroup.name } : null,
+        peerScreening,
+        peers: finalPeers,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      res.json({ ...targetData, peers: finalPeers });
+  app.get(api.beta.rolling.path, async (req, res) => {
+    try {
+      const query = api.beta.rolling.input.parse(req.query);
+      const {
+        ticker, exchange, benchmark, startDate, endDate, frequency, betaMethod, useAdjustedPrices, dropSuspiciousReturns,
+        preferExchangeBars, riskFreeSource, riskFreeRate,
+      } = query;
+      const index = benchmark ? getBenchmark(benchmark) : defaultBenchmark(exchange);
+      if (!index) return res.status(400).json({ message: `Unknown benchmark "${benchmark}".`, field: "benchmark" });
+      if (riskFreeSource === "constant" && riskFreeRate === undefined) {
+        return res.status(400).json({ message: "A constant risk-free rate is required.", field: "riskFreeRate" });
+      }
+      const tbillYields = riskFreeSource === "tbill" ? loadTbillYields() : null;
+      if (riskFreeSource === "tbill" && !tbillYields) {
+        return res.status(400).json({ message: "No T-bill yield file is available on the server.", field: "riskFreeSource" });
+      }
+      const periodsPerYear = PERIODS_PER_YEAR[frequency];
+      const window = query.window ?? periodsPerYear;
+      const step = query.step ?? Math.max(1, Math.round(periodsPerYear / 12));
+      // Same excess-return regression as the headline beta
+      const seriesOptions: SeriesMetricsOptions = {
+        periodsPerYear,
+        betaMethod,
+        dropSuspiciousReturns,
+        riskFree: riskFreeLookup(riskFreeSource, riskFreeRate, tbillYields),
+      };
+      const marketTicker = index.symbol;
+      // Peers are resolved like the target, so bare symbols such as TCS reach their listing
+      const seriesTicker = (input: string) => isCustomSymbol(input) ? input.toUpperCase() : resolveTicker(input, exchange);
+      const fullTicker = seriesTicker(ticker);
+      const peerTickers = Array.from(new Set((query.peers || '').split(',').map(p => p.trim()).filter(Boolean).map(seriesTicker))).slice(0, 10);
+
+      const [marketData, stockHistory, ...peerHistory] = await Promise.all([
+        fetchHistoricalData(marketTicker, startDate, endDate),
+        fetchPriceHistory(fullTicker, startDate, endDate, preferExchangeBars),
+        ...peerTickers.map(p => fetchPriceHistory(p, startDate, endDate, preferExchangeBars)),
+      ]);
+      const stockData = stockHistory?.bars;
+      const peerData = peerHistory.map(h => h?.bars);
+
+      if (!marketData || marketData.length === 0 || !stockData || stockData.length === 0) {
+        if (yahooScheduler.circuitOpen) {
+          return res.status(503).json({ message: "Market data provider is temporarily unavailable. Try again shortly." });
+        }
+        return res.status(404).json({ message: "Failed to fetch market or stock data." });
+      }
+
+      const dateMap = marketPriceMap(marketData, useAdjustedPrices);
+      const aligned = resampleSeries(alignPrices(stockData, dateMap, useAdjustedPrices), frequency);
+      const windows = rollingWindows(aligned.dates.length, window, step);
+      if (windows.length === 0) {
+        return res.status(400).json({ message: `Need more than ${window} aligned observations for a rolling window.` });
+      }
+
+      const series: RollingBetaPoint[] = [];
+      for (const w of windows) {
+        const { metrics: m } = screenedMetrics(sliceSeries(aligned, w.start, w.end), seriesOptions);
+        if (m) series.push({ date: aligned.dates[w.end], beta: m.beta, rSquared: m.rSquared, volatility: m.volatility });
+      }
+
+      // Peers are evaluated over the same calendar windows as the target so the lines are comparable
+      const peerSeries = peerData
+        .filter((d): d is NonNullable<typeof d> => !!d && d.length > 1)
+        .map(d => resampleSeries(alignPrices(d, dateMap, useAdjustedPrices), frequency));
+      const peerMedian: { date: string; beta: number }[] = [];
+      for (const w of windows) {
+        const from = aligned.dates[w.start];
+        const to = aligned.dates[w.end];
+        const betas = peerSeries
+          .map(ps => {
+            const slice = sliceByDate(ps, from, to);
+            // Require most of the window to be present so thinly traded peers don't distort the median
+            if (slice.dates.length < window * 0.8) return null;
+            return screenedMetrics(slice, seriesOptions).metrics?.beta ?? null;
+          })
+          .filter((b): b is number => b !== null);
+        const med = median(betas);
+        if (med !== null) peerMedian.push({ date: to, beta: med });
+      }
+
+      res.json({
+        ticker: fullTicker,
+        marketIndex: index.name,
+        benchmark: index.id,
+        frequency,
+        window,
+        step,
+        priceSource: stockHistory!.source,
+        series,
+        peerMedian,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(api.peerGroups.list.path, async (_req, res) => {
+    try {
+      res.json((await storage.listPeerGroups()).map(peerGroupInfo));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(api.peerGroups.get.path, async (req, res) => {
+    try {
+      const { id } = api.peerGroups.get.params.parse(req.params);
+      const group = await storage.getPeerGroup(id);
+      if (!group) return res.status(404).json({ message: `No peer group ${id}.` });
+      res.json(peerGroupInfo(group));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(api.peerGroups.create.path, async (req, res) => {
+    try {
+      const input = normalizePeerGroup(api.peerGroups.create.input.parse(req.body));
+      if (await peerGroupNameTaken(input.name)) {
+        return res.status(409).json({ message: `A peer group named "${input.name}" already exists.` });
+      }
+      res.status(201).json(peerGroupInfo(await storage.createPeerGroup(input)));
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put(api.peerGroups.update.path, async (req, res) => {
+    try {
+      const { id } = api.peerGroups.update.params.parse(req.params);
+      const input = normalizePeerGroup(api.peerGroups.update.input.parse(req.body));
+      if (await peerGroupNameTaken(input.name, id)) {
+        return res.status(409).json({ message: `A peer group named "${input.name}" already exists.` });
+      }
+      const group = await storage.updatePeerGroup(id, input);
+      if (!group) return res.status(404).json({ message: `No peer group ${id}.` });
+      res.json(peerGroupInfo(group));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete(api.peerGroups.delete.path, async (req, res) => {
+    try {
+      const { id } = api.peerGroups.delete.params.parse(req.params);
+      const deleted = await storage.deletePeerGroup(id);
+      if (!deleted) return res.status(404).json({ message: `No peer group ${id}.` });
+      res.status(204).end();
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(api.customSeries.list.path, async (_req, res) => {
+    try {
+      const series = await storage.listCustomSeries();
+      res.json(await Promise.all(series.map(customSeriesInfo)));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Body is the raw file (CSV or XLSX); name and fileName come from the query string
+  app.post(api.customSeries.upload.path, express.raw({ type: () => true, limit: '10mb' }), async (req, res) => {
+    try {
+      const { name, fileName } = api.customSeries.upload.input.parse(req.query);
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ message: "Send the CSV or XLSX file as the request body." });
+      }
+      res.status(201).json(await saveCustomSeriesUpload(req.params.symbol, req.body, name, fileName));
+    } catch (err) {
+      if (err instanceof SeriesUploadError) {
+        return res.status(400).json({ message: err.message });
+      }
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete(api.customSeries.delete.path, async (req, res) => {
+    try {
+      const symbol = req.params.symbol.toUpperCase();
+      const deleted = await storage.deleteCustomSeries(isCustomSymbol(symbol) ? symbol : `${CUSTOM_SYMBOL_PREFIX}${symbol}`);
+      if (!deleted) return res.status(404).json({ message: `No uploaded series "${req.params.symbol}".` });
+      res.status(204).end();
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get(api.admin.priceCache.status.path, requireAdmin, async (req, res) => {
+    try {
+      res.json(await priceCacheStatus(req.params.symbol));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete(api.admin.priceCache.purge.path, requireAdmin, async (req, res) => {
+    try {
+      if (isCustomSymbol(req.params.symbol)) {
+        return res.status(400).json({ message: "Uploaded series are managed through /api/custom-series." });
+      }
+      const deleted = await purgePriceHistory(req.params.symbol);
+      res.json({ symbol: req.params.symbol, deleted });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(api.admin.priceCache.rebuild.path, requireAdmin, async (req, res) => {
+    try {
+      if (isCustomSymbol(req.params.symbol)) {
+        return res.status(400).json({ message: "Uploaded series are managed through /api/custom-series." });
+      }
+      const input = api.admin.priceCache.rebuild.input.parse(req.body ?? {});
+      const endDate = input.endDate ?? new Date().toISOString();
+      const startDate = input.startDate ?? new Date(new Date(endDate).setFullYear(new Date(endDate).getFullYear() - 5)).toISOString();
+      const status = await rebuildPriceHistory(req.params.symbol, startDate, endDate);
+      if (!status) return res.status(404).json({ message: `No price history returned for ${req.params.symbol}.` });
+      res.json(status);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post(api.admin.bhavcopy.import.path, requireAdmin, async (req, res) => {
+    try {
+      const input = api.admin.bhavcopy.import.input.parse(req.body ?? {});
+      res.json(await importBhavcopies(input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
       console.error(err);
       res.status(500).json({ message: "Internal server error" });
     }
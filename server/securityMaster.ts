@@ -0,0 +1,237 @@
+import ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import path from 'path';
+import type { InsertSecurity, Security } from "@shared/schema";
+import { storage } from "./storage";
+import type { ListedCompany } from "./tickerSearch";
+
+export type Exchange = 'NSE' | 'BSE';
+
+export const INDUSTRY_WORKBOOK_PATH = path.resolve(process.cwd(), 'attached_assets', 'INDIAN_COMPANIES_LIST_INDUSTRY_WISE_1767863645829.xlsx');
+
+// Optional exchange master files (CSV or XLSX): NSE's EQUITY_L.csv and/or BSE's list of scrips.
+// Only these carry ISINs, so NSE and BSE listings can only be linked when one of each is present.
+export const EXCHANGE_MASTER_DIR = process.env.EXCHANGE_MASTER_DIR || path.resolve(process.cwd(), 'attached_assets', 'exchange_master');
+
+// Workbook exchange codes, e.g. "NSEI:AFFLE" and "BSE:531035"
+const WORKBOOK_EXCHANGES: Record<string, string> = { NSEI: 'NSE', BSE: 'BSE' };
+
+let companies: ListedCompany[] = [];
+let securityList: Security[] = [];
+let byNseSymbol = new Map<string, Security>();
+let byBseCode = new Map<string, Security>();
+let byBseSymbol = new Map<string, Security>();
+let byIsin = new Map<string, Security>();
+
+async function readSheet(file: string): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = /\.csv$/i.test(file)
+    ? await workbook.csv.readFile(file)
+    : (await workbook.xlsx.readFile(file)).worksheets[0];
+  const rows: string[][] = [];
+  sheet?.eachRow(row => {
+    const values = row.values as any[];
+    rows.push(values.slice(1).map(v => String(v ?? '').trim())); // row.values is 1-based
+  });
+  return rows;
+}
+
+async function readIndustryWorkbook(): Promise<ListedCompany[]> {
+  if (!fs.existsSync(INDUSTRY_WORKBOOK_PATH)) return [];
+  const rawData = await readSheet(INDUSTRY_WORKBOOK_PATH);
+  if (rawData.length === 0) return [];
+
+  const headers = rawData[0].map(h => h.toLowerCase());
+  const nameIdx = headers.findIndex(h => h.includes('company') || h === 'name');
+  const tickerIdx = headers.findIndex(h => h.includes('ticker') || h === 'symbol');
+  const industryIdx = headers.findIndex(h => h === 'industry group' || h === 'industry' || h === 'sector');
+  if (tickerIdx === -1) return [];
+
+  return rawData.slice(1).map(row => {
+    const rawTicker = row[tickerIdx] || '';
+    const symbol = rawTicker.includes(':') ? rawTicker.split(':')[1] : rawTicker;
+    const exchangeCode = rawTicker.includes(':') ? rawTicker.split(':')[0] : '';
+    return {
+      symbol,
+      // Names carry the listing in brackets, e.g. "Affle (India) Limited (NSEI:AFFLE)"
+      name: nameIdx !== -1 ? (row[nameIdx] || '').replace(/\s*\([^()]*:[^()]*\)$/, '') : '',
+      industry: industryIdx !== -1 ? row[industryIdx] || '' : '',
+      exchange: WORKBOOK_EXCHANGES[exchangeCode] ?? exchangeCode,
+    };
+  }).filter(item => item.symbol);
+}
+
+interface MasterRow {
+  exchange: Exchange;
+  code: string;        // NSE symbol or BSE scrip code
+  bseSymbol?: string;
+  isin: string | null;
+  name: string;
+  industry?: string;
+}
+
+// NSE EQUITY_L: SYMBOL, NAME OF COMPANY, SERIES, ..., ISIN NUMBER
+// BSE scrip list: Security Code, Issuer Name, Security Id, Security Name, Status, ..., ISIN No, Industry, Instrument
+function parseExchangeMaster(rows: string[][]): MasterRow[] {
+  if (rows.length < 2) return [];
+  const headers = rows[0].map(h => h.toLowerCase());
+  const col = (...names: string[]) => headers.findIndex(h => names.includes(h));
+
+  const bseCode = col('security code', 'scrip code', 'sc_code');
+  if (bseCode !== -1) {
+    const [id, issuer, secName, isin, industry, status, instrument] = [
+      col('security id', 'scrip id'), col('issuer name'), col('security name', 'scrip name'), col('isin no', 'isin'),
+      col('industry', 'industry new name'), col('status'), col('instrument'),
+    ];
+    return rows.slice(1)
+      .filter(r => r[bseCode] && (status === -1 || r[status].toLowerCase() === 'active') && (instrument === -1 || r[instrument].toLowerCase() === 'equity'))
+      .map(r => ({
+        exchange: 'BSE' as const,
+        code: r[bseCode],
+        bseSymbol: id !== -1 ? r[id].toUpperCase() || undefined : undefined,
+        isin: isin !== -1 ? r[isin] || null : null,
+        name: (issuer !== -1 && r[issuer]) || (secName !== -1 && r[secName]) || r[bseCode],
+        industry: industry !== -1 ? r[industry] || undefined : undefined,
+      }));
+  }
+
+  const nseSymbol = col('symbol');
+  if (nseSymbol !== -1) {
+    const [name, isin] = [col('name of company', 'company name'), col('isin number', 'isin')];
+    return rows.slice(1)
+      .filter(r => r[nseSymbol])
+      .map(r => ({
+        exchange: 'NSE' as const,
+        code: r[nseSymbol].toUpperCase(),
+        isin: isin !== -1 ? r[isin] || null : null,
+        name: (name !== -1 && r[name]) || r[nseSymbol],
+      }));
+  }
+  return [];
+}
+
+async function readExchangeMasters(): Promise<MasterRow[]> {
+  if (!fs.existsSync(EXCHANGE_MASTER_DIR)) return [];
+  const rows: MasterRow[] = [];
+  for (const file of fs.readdirSync(EXCHANGE_MASTER_DIR).filter(f => /\.(csv|xlsx)$/i.test(f)).sort()) {
+    const parsed = parseExchangeMaster(await readSheet(path.join(EXCHANGE_MASTER_DIR, file)));
+    if (parsed.length === 0) console.warn(`Skipping ${file}: not a recognised NSE or BSE security master`);
+    rows.push(...parsed);
+  }
+  return rows;
+}
+
+// Exchange masters are merged on ISIN first; workbook rows then attach to the listing they
+// name, supplying the industry group used for peer discovery, or stand alone when unmatched.
+function buildSecurities(workbook: ListedCompany[], masters: MasterRow[]): InsertSecurity[] {
+  const records: InsertSecurity[] = [];
+  const isinIndex = new Map<string, InsertSecurity>();
+  const nseIndex = new Map<string, InsertSecurity>();
+  const bseIndex = new Map<string, InsertSecurity>();
+
+  for (const row of masters) {
+    const index = row.exchange === 'NSE' ? nseIndex : bseIndex;
+    if (index.has(row.code)) continue;
+    let record = row.isin ? isinIndex.get(row.isin) : undefined;
+    if (!record) {
+      record = { isin: row.isin, name: row.name };
+      records.push(record);
+      if (row.isin) isinIndex.set(row.isin, record);
+    }
+    if (row.exchange === 'NSE') record.nseSymbol = row.code;
+    else {
+      record.bseCode = row.code;
+      record.bseSymbol = row.bseSymbol ?? null;
+      record.industry = record.industry || row.industry || null;
+    }
+    index.set(row.code, record);
+  }
+
+  for (const company of workbook) {
+    if (company.exchange !== 'NSE' && company.exchange !== 'BSE') continue;
+    const index = company.exchange === 'NSE' ? nseIndex : bseIndex;
+    const existing = index.get(company.symbol);
+    if (existing) {
+      existing.name = company.name || existing.name;
+      existing.industry = company.industry || existing.industry;
+      continue;
+    }
+    const record: InsertSecurity = {
+      name: company.name || company.symbol,
+      industry: company.industry || null,
+      ...(company.exchange === 'NSE' ? { nseSymbol: company.symbol } : { bseCode: company.symbol }),
+    };
+    records.push(record);
+    index.set(company.symbol, record);
+  }
+  return records;
+}
+
+function indexSecurities(rows: Security[]) {
+  securityList = rows;
+  byNseSymbol = new Map(rows.filter(s => s.nseSymbol).map(s => [s.nseSymbol!, s]));
+  byBseCode = new Map(rows.filter(s => s.bseCode).map(s => [s.bseCode!, s]));
+  byBseSymbol = new Map(rows.filter(s => s.bseSymbol).map(s => [s.bseSymbol!, s]));
+  byIsin = new Map(rows.filter(s => s.isin).map(s => [s.isin!, s]));
+}
+
+export async function loadSecurityMaster() {
+  try {
+    companies = await readIndustryWorkbook();
+    const saved = await storage.replaceSecurities(buildSecurities(companies, await readExchangeMasters()));
+    indexSecurities(saved);
+    const crossListed = saved.filter(s => s.nseSymbol && s.bseCode).length;
+    console.log(`Security master: ${saved.length} securities, ${crossListed} listed on both NSE and BSE`);
+  } catch (error) {
+    console.error("Error loading security master:", error);
+  }
+}
+
+// Rows of the industry workbook, as loaded
+export function listedCompanies(): ListedCompany[] {
+  return companies;
+}
+
+export function securitiesInIndustry(industry: string): Security[] {
+  return securityList.filter(s => s.industry === industry);
+}
+
+// Security for a Yahoo ticker (RELIANCE.NS, 500325.BO, RELIANCE.BO), a bare NSE symbol,
+// BSE scrip code or ISIN. Yahoo's symbol-style .BO tickers normally match the NSE symbol,
+// so that is tried when the BSE master isn't loaded.
+export function findSecurity(ticker: string): Security | undefined {
+  const upper = ticker.trim().toUpperCase();
+  const listing = upper.match(/^(.+)\.(NS|BO)$/);
+  if (listing?.[2] === 'NS') return byNseSymbol.get(listing[1]);
+  if (listing?.[2] === 'BO') return byBseCode.get(listing[1]) ?? byBseSymbol.get(listing[1]) ?? byNseSymbol.get(listing[1]);
+  return byNseSymbol.get(upper) ?? byBseCode.get(upper) ?? byBseSymbol.get(upper) ?? byIsin.get(upper);
+}
+
+// Yahoo ticker for the security on `exchange`, or null when it isn't listed there
+export function listingOn(security: Security, exchange: Exchange): string | null {
+  if (exchange === 'NSE') return security.nseSymbol ? `${security.nseSymbol}.NS` : null;
+  return security.bseCode ? `${security.bseCode}.BO` : null;
+}
+
+// The listing on `exchange` when there is one, else wherever the company does trade
+export function preferredListing(security: Security, exchange: Exchange): string {
+  return listingOn(security, exchange) ?? listingOn(security, exchange === 'NSE' ? 'BSE' : 'NSE')!;
+}
+
+// The same company's listing on the other exchange. Without a BSE master the scrip code of an
+// NSE company is unknown, so Yahoo's symbol-style .BO ticker is offered instead.
+export function alternateListing(ticker: string): string | null {
+  const security = findSecurity(ticker);
+  if (!security) return null;
+  if (ticker.toUpperCase().endsWith('.BO')) return listingOn(security, 'NSE');
+  return listingOn(security, 'BSE') ?? (security.nseSymbol ? `${security.nseSymbol}.BO` : null);
+}
+
+// Yahoo ticker for what the user typed on the chosen exchange. Input with a suffix is used as
+// given; symbols the master doesn't know fall back to appending the exchange suffix.
+export function resolveTicker(input: string, exchange: Exchange): string {
+  const upper = input.trim().toUpperCase();
+  if (/\.(NS|BO)$/.test(upper)) return upper;
+  const security = findSecurity(upper);
+  return (security && listingOn(security, exchange)) || `${upper}${exchange === 'NSE' ? '.NS' : '.BO'}`;
+}
@@ -0,0 +1,89 @@
+import OpenAI from "openai";
+import { localBackend } from "./localSimilarity";
+
+export type SimilarityBackendName = "openai" | "local";
+
+export interface BusinessProfile {
+  embedding: number[];
+  keywords: string[];
+}
+
+// How company profiles are built from business descriptions and compared. Profiles are only
+// comparable with others from the same backend, so each is stored with the backend's name.
+export interface SimilarityBackend {
+  name: SimilarityBackendName;
+  describe(text: string): Promise<BusinessProfile>;
+  // Similarity of each candidate vector to the target's, in candidate order
+  similarities(target: number[], candidates: number[][]): number[];
+  // Similarity at which a same-industry peer is High confidence, and the least a peer
+  // from another industry needs to be kept at all
+  highSimilarity: number;
+  minCrossIndustry: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+let openaiClient: OpenAI | null = null;
+const openai = () => openaiClient ??= new OpenAI({
+  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+});
+
+async function getEmbedding(text: string): Promise<number[]> {
+  const response = await openai().embeddings.create({
+    model: "text-embedding-3-small",
+    input: text,
+  });
+  return response.data[0].embedding;
+}
+
+async function generateKeywords(text: string): Promise<string[]> {
+  const response = await openai().chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: "Extract exactly 5 core business keywords from the following business summary. Return them as a comma-separated list of single words or short phrases.",
+      },
+      {
+        role: "user",
+        content: text,
+      },
+    ],
+    max_completion_tokens: 50,
+  });
+  const content = response.choices[0].message.content || "";
+  return content.split(",").map(k => k.trim().toLowerCase()).slice(0, 5);
+}
+
+export const openaiBackend: SimilarityBackend = {
+  name: "openai",
+  async describe(text) {
+    const [embedding, keywords] = await Promise.all([getEmbedding(text), generateKeywords(text)]);
+    return { embedding, keywords };
+  },
+  similarities: (target, candidates) => candidates.map(c => cosineSimilarity(target, c)),
+  // text-embedding-3-small puts companies in the same line of business around 0.5–0.7 and
+  // unrelated ones around 0.2–0.3
+  highSimilarity: 0.55,
+  minCrossIndustry: 0.5,
+};
+
+// SIMILARITY_BACKEND picks "openai" or "local"; unset, OpenAI is used only when it is configured
+export function similarityBackend(): SimilarityBackend {
+  const configured = process.env.SIMILARITY_BACKEND?.toLowerCase();
+  if (configured === "local") return localBackend;
+  if (configured === "openai") return openaiBackend;
+  return process.env.AI_INTEGRATIONS_OPENAI_API_KEY ? openaiBackend : localBackend;
+}
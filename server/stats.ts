@@ -0,0 +1,170 @@
+// Distribution helpers for regression inference. Kept dependency-free so the
+// beta engine can run anywhere the server runs.
+
+// Lanczos approximation of ln Γ(x) for x > 0
+function logGamma(x: number): number {
+  const g = 7;
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let a = c[0];
+  const t = x + g + 0.5;
+  for (let i = 1; i < g + 2; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return h;
+}
+
+// Regularised incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x),
+  );
+  if (x < (a + 1) / (a + b + 2)) return (front * betaContinuedFraction(x, a, b)) / a;
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+// Two-tailed p-value of a Student t statistic with `df` degrees of freedom
+export function studentTPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+// Critical value t* such that P(|T| <= t*) = level, found by bisection on the CDF
+export function studentTCritical(level: number, df: number): number {
+  const target = 1 - level;
+  let lo = 0;
+  let hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTPValue(mid, df) > target) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Invert a small square matrix by Gauss-Jordan elimination; null when singular
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-18) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * size; j++) a[col][j] /= p;
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * size; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+  return a.map(row => row.slice(size));
+}
+
+// OLS of y on an intercept plus the given regressors. Coefficients are
+// [intercept, ...slopes]; covariance is the estimated coefficient covariance matrix.
+export function multipleRegression(y: number[], regressors: number[][]) {
+  const n = y.length;
+  const k = regressors.length + 1;
+  if (n <= k) return null;
+
+  const row = (i: number) => [1, ...regressors.map(x => x[i])];
+  const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const xty = new Array<number>(k).fill(0);
+  for (let i = 0; i < n; i++) {
+    const xi = row(i);
+    for (let a = 0; a < k; a++) {
+      xty[a] += xi[a] * y[i];
+      for (let b = 0; b < k; b++) xtx[a][b] += xi[a] * xi[b];
+    }
+  }
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) return null;
+  const coefficients = inverse.map(r => r.reduce((sum, v, j) => sum + v * xty[j], 0));
+
+  let residualSS = 0;
+  for (let i = 0; i < n; i++) {
+    const fitted = row(i).reduce((sum, v, j) => sum + v * coefficients[j], 0);
+    residualSS += (y[i] - fitted) ** 2;
+  }
+  const df = n - k;
+  const residualVariance = residualSS / df;
+
+  return {
+    coefficients,
+    covariance: inverse.map(r => r.map(v => v * residualVariance)),
+    residualStdDev: Math.sqrt(residualVariance),
+    df,
+  };
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Slope of the simple OLS regression of y on x; null when x has no variance
+export function regressionSlope(y: number[], x: number[]): number | null {
+  const my = mean(y);
+  const mx = mean(x);
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+  }
+  return sxx === 0 ? null : sxy / sxx;
+}
+
+// Pearson correlation of two equal-length samples; null when either is constant
+export function pearsonCorrelation(a: number[], b: number[]): number | null {
+  const ma = mean(a);
+  const mb = mean(b);
+  let sab = 0;
+  let saa = 0;
+  let sbb = 0;
+  for (let i = 0; i < a.length; i++) {
+    sab += (a[i] - ma) * (b[i] - mb);
+    saa += (a[i] - ma) ** 2;
+    sbb += (b[i] - mb) ** 2;
+  }
+  return saa === 0 || sbb === 0 ? null : sab / Math.sqrt(saa * sbb);
+}
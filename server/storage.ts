@@ -1,20 +1,57 @@
-import { searches, companyProfiles, type InsertSearch, type Search, type InsertCompanyProfile, type CompanyProfile } from "@shared/schema";
+import { searches, companyProfiles, type InsertSearch, type Search, type InsertCompanyProfile, type CompanyProfile, type PriceBar, type InsertPriceBar, type PriceCoverage, type CustomSeries, type InsertCustomSeries, type BhavcopyImport, type Security, type InsertSecurity, type FundamentalSnapshot, type PeerGroup, type PeerGroupInput } from "@shared/schema";
 
 export interface IStorage {
   createSearch(search: InsertSearch): Promise<Search>;
   getRecentSearches(): Promise<Search[]>;
   getCompanyProfile(ticker: string): Promise<CompanyProfile | undefined>;
   upsertCompanyProfile(profile: InsertCompanyProfile): Promise<CompanyProfile>;
+  getPriceBars(symbol: string, fromDate?: string, toDate?: string, source?: string): Promise<PriceBar[]>;
+  upsertPriceBars(bars: InsertPriceBar[]): Promise<void>;
+  findPriceSymbolByIsin(isin: string, source: string): Promise<string | undefined>;
+  getPriceCoverage(symbol: string): Promise<PriceCoverage | undefined>;
+  setPriceCoverage(coverage: PriceCoverage): Promise<void>;
+  deletePriceHistory(symbol: string, source?: string): Promise<number>;
+  getCustomSeries(symbol: string): Promise<CustomSeries | undefined>;
+  listCustomSeries(): Promise<CustomSeries[]>;
+  saveCustomSeries(series: InsertCustomSeries, bars: InsertPriceBar[]): Promise<CustomSeries>;
+  deleteCustomSeries(symbol: string): Promise<boolean>;
+  getBhavcopyImport(exchange: string, tradeDate: string): Promise<BhavcopyImport | undefined>;
+  recordBhavcopyImport(record: Omit<BhavcopyImport, "importedAt">): Promise<BhavcopyImport>;
+  listSecurities(): Promise<Security[]>;
+  replaceSecurities(rows: InsertSecurity[]): Promise<Security[]>;
+  upsertFundamentalSnapshots(rows: Omit<FundamentalSnapshot, "recordedAt">[]): Promise<void>;
+  getFundamentalHistory(ticker: string, metric: string, fromDate?: string, toDate?: string): Promise<FundamentalSnapshot[]>;
+  listPeerGroups(): Promise<PeerGroup[]>;
+  getPeerGroup(id: number): Promise<PeerGroup | undefined>;
+  createPeerGroup(group: PeerGroupInput): Promise<PeerGroup>;
+  updatePeerGroup(id: number, group: PeerGroupInput): Promise<PeerGroup | undefined>;
+  deletePeerGroup(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private searches: Map<number, Search>;
   private companyProfiles: Map<string, CompanyProfile>;
+  private priceBars: Map<string, Map<string, PriceBar>>; // symbol -> "date|source" -> bar
+  private priceSymbolsByIsin: Map<string, string>; // "source|isin" -> symbol the bars are stored under
+  private priceCoverage: Map<string, PriceCoverage>;
+  private customSeries: Map<string, CustomSeries>;
+  private bhavcopyImports: Map<string, BhavcopyImport>;
+  private securities: Security[];
+  private fundamentalSnapshots: Map<string, Map<string, FundamentalSnapshot>>; // ticker -> "metric|date" -> row
+  private peerGroups: Map<number, PeerGroup>;
   private nextId: number;
 
   constructor() {
     this.searches = new Map();
     this.companyProfiles = new Map();
+    this.priceBars = new Map();
+    this.priceSymbolsByIsin = new Map();
+    this.priceCoverage = new Map();
+    this.customSeries = new Map();
+    this.bhavcopyImports = new Map();
+    this.securities = [];
+    this.fundamentalSnapshots = new Map();
+    this.peerGroups = new Map();
     this.nextId = 1;
   }
 
@@ -39,10 +76,152 @@ export class MemStorage implements IStorage {
   }
 
   async upsertCompanyProfile(profile: InsertCompanyProfile): Promise<CompanyProfile> {
-    const updatedProfile: CompanyProfile = { ...profile, updatedAt: new Date() };
+    const updatedProfile: CompanyProfile = { ...profile, backend: profile.backend ?? "openai", updatedAt: new Date() };
     this.companyProfiles.set(profile.ticker, updatedProfile);
     return updatedProfile;
   }
+
+  async getPriceBars(symbol: string, fromDate?: string, toDate?: string, source?: string): Promise<PriceBar[]> {
+    const bars = Array.from(this.priceBars.get(symbol)?.values() || []);
+    return bars
+      .filter(b => (!fromDate || b.date >= fromDate) && (!toDate || b.date <= toDate) && (!source || b.source === source))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async upsertPriceBars(bars: InsertPriceBar[]): Promise<void> {
+    for (const bar of bars) {
+      if (!this.priceBars.has(bar.symbol)) this.priceBars.set(bar.symbol, new Map());
+      const source = bar.source ?? "yahoo";
+      if (bar.isin) this.priceSymbolsByIsin.set(`${source}|${bar.isin}`, bar.symbol);
+      this.priceBars.get(bar.symbol)!.set(`${bar.date}|${source}`, {
+        ...bar,
+        open: bar.open ?? null,
+        high: bar.high ?? null,
+        low: bar.low ?? null,
+        adjClose: bar.adjClose ?? null,
+        volume: bar.volume ?? null,
+        source,
+        series: bar.series ?? null,
+        isin: bar.isin ?? null,
+        tradedValue: bar.tradedValue ?? null,
+      });
+    }
+  }
+
+  async findPriceSymbolByIsin(isin: string, source: string): Promise<string | undefined> {
+    return this.priceSymbolsByIsin.get(`${source}|${isin}`);
+  }
+
+  async getPriceCoverage(symbol: string): Promise<PriceCoverage | undefined> {
+    return this.priceCoverage.get(symbol);
+  }
+
+  async setPriceCoverage(coverage: PriceCoverage): Promise<void> {
+    this.priceCoverage.set(coverage.symbol, coverage);
+  }
+
+  async deletePriceHistory(symbol: string, source?: string): Promise<number> {
+    const bars = this.priceBars.get(symbol);
+    if (!bars) return 0;
+    let count = 0;
+    bars.forEach((bar, key) => {
+      if (!source || bar.source === source) { bars.delete(key); count++; }
+    });
+    // Coverage tracks what was fetched from the provider
+    if (!source || source === "yahoo") this.priceCoverage.delete(symbol);
+    return count;
+  }
+
+  async getCustomSeries(symbol: string): Promise<CustomSeries | undefined> {
+    return this.customSeries.get(symbol);
+  }
+
+  async listCustomSeries(): Promise<CustomSeries[]> {
+    return Array.from(this.customSeries.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  // An upload replaces the whole series rather than merging into it
+  async saveCustomSeries(series: InsertCustomSeries, bars: InsertPriceBar[]): Promise<CustomSeries> {
+    const saved: CustomSeries = { ...series, fileName: series.fileName ?? null, uploadedAt: new Date() };
+    this.priceBars.delete(series.symbol);
+    await this.upsertPriceBars(bars);
+    this.customSeries.set(series.symbol, saved);
+    return saved;
+  }
+
+  async deleteCustomSeries(symbol: string): Promise<boolean> {
+    this.priceBars.delete(symbol);
+    return this.customSeries.delete(symbol);
+  }
+
+  async getBhavcopyImport(exchange: string, tradeDate: string): Promise<BhavcopyImport | undefined> {
+    return this.bhavcopyImports.get(`${exchange}|${tradeDate}`);
+  }
+
+  async recordBhavcopyImport(record: Omit<BhavcopyImport, "importedAt">): Promise<BhavcopyImport> {
+    const saved: BhavcopyImport = { ...record, importedAt: new Date() };
+    this.bhavcopyImports.set(`${record.exchange}|${record.tradeDate}`, saved);
+    return saved;
+  }
+
+  async listSecurities(): Promise<Security[]> {
+    return [...this.securities];
+  }
+
+  // The master is rebuilt from its source files as a whole, never edited row by row
+  async replaceSecurities(rows: InsertSecurity[]): Promise<Security[]> {
+    this.securities = rows.map(row => ({
+      id: this.nextId++,
+      isin: row.isin ?? null,
+      nseSymbol: row.nseSymbol ?? null,
+      bseCode: row.bseCode ?? null,
+      bseSymbol: row.bseSymbol ?? null,
+      name: row.name,
+      industry: row.industry ?? null,
+    }));
+    return [...this.securities];
+  }
+
+  async upsertFundamentalSnapshots(rows: Omit<FundamentalSnapshot, "recordedAt">[]): Promise<void> {
+    for (const row of rows) {
+      if (!this.fundamentalSnapshots.has(row.ticker)) this.fundamentalSnapshots.set(row.ticker, new Map());
+      this.fundamentalSnapshots.get(row.ticker)!.set(`${row.metric}|${row.snapshotDate}`, { ...row, recordedAt: new Date() });
+    }
+  }
+
+  async getFundamentalHistory(ticker: string, metric: string, fromDate?: string, toDate?: string): Promise<FundamentalSnapshot[]> {
+    const rows = Array.from(this.fundamentalSnapshots.get(ticker)?.values() || []);
+    return rows
+      .filter(r => r.metric === metric && (!fromDate || r.snapshotDate >= fromDate) && (!toDate || r.snapshotDate <= toDate))
+      .sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate));
+  }
+
+  async listPeerGroups(): Promise<PeerGroup[]> {
+    return Array.from(this.peerGroups.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPeerGroup(id: number): Promise<PeerGroup | undefined> {
+    return this.peerGroups.get(id);
+  }
+
+  async createPeerGroup(group: PeerGroupInput): Promise<PeerGroup> {
+    const now = new Date();
+    const saved: PeerGroup = { ...group, description: group.description ?? null, id: this.nextId++, createdAt: now, updatedAt: now };
+    this.peerGroups.set(saved.id, saved);
+    return saved;
+  }
+
+  async updatePeerGroup(id: number, group: PeerGroupInput): Promise<PeerGroup | undefined> {
+    const existing = this.peerGroups.get(id);
+    if (!existing) return undefined;
+    const saved: PeerGroup = { ...existing, ...group, description: group.description ?? null, updatedAt: new Date() };
+    this.peerGroups.set(id, saved);
+    return saved;
+  }
+
+  async deletePeerGroup(id: number): Promise<boolean> {
+    return this.peerGroups.delete(id);
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,109 @@
+import type { TickerSearchResult } from "@shared/schema";
+import { dataProvider } from "./marketData";
+
+// One row of the industry workbook; exchange is "NSE", "BSE" or the workbook's own code for other markets
+export interface ListedCompany {
+  symbol: string;
+  name: string;
+  industry: string;
+  exchange: string;
+}
+
+// Yahoo is only asked when the workbook has fewer matches than this
+const YAHOO_FALLBACK_BELOW = 3;
+
+const normalize = (s: string) => s.toUpperCase().replace(/[^A-Z0-9&]+/g, ' ').trim();
+
+// True when a and b differ by at most one insertion, deletion or substitution
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { i++; j++; continue; }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else { i++; j++; }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// Query word matches a name word by prefix, or (for words of four or more letters) with one typo
+function wordMatches(queryWord: string, nameWord: string, allowTypo: boolean): boolean {
+  if (nameWord.startsWith(queryWord)) return true;
+  if (!allowTypo || queryWord.length < 4) return false;
+  return [-1, 0, 1].some(d => withinOneEdit(queryWord, nameWord.slice(0, queryWord.length + d)));
+}
+
+// Higher is better; 0 means no match. Symbols (including BSE numeric codes) outrank names.
+function score(company: ListedCompany, query: string, words: string[]): number {
+  const symbol = company.symbol.toUpperCase();
+  const compact = query.replace(/ /g, '');
+  if (symbol === compact) return 100;
+  if (symbol.startsWith(compact)) return 90 - Math.min(symbol.length - compact.length, 20) / 2;
+
+  const name = normalize(company.name);
+  if (name.startsWith(query)) return 75;
+  const nameWords = name.split(' ');
+  if (words.every(w => nameWords.some(n => wordMatches(w, n, false)))) return 60;
+  if (symbol.includes(compact)) return 45;
+  if (words.every(w => nameWords.some(n => wordMatches(w, n, true)))) return 30;
+  return 0;
+}
+
+const exchangeRank = (c: ListedCompany) => c.exchange === 'NSE' ? 0 : 1;
+
+function searchList(companies: ListedCompany[], rawQuery: string, limit: number): TickerSearchResult[] {
+  const query = normalize(rawQuery);
+  if (!query) return [];
+  const words = query.split(' ');
+  return companies
+    .filter(c => c.exchange === 'NSE' || c.exchange === 'BSE')
+    .map(c => ({ company: c, score: score(c, query, words) }))
+    .filter(m => m.score > 0)
+    // NSE listings first on ties; they have the deeper price history
+    .sort((a, b) => b.score - a.score || exchangeRank(a.company) - exchangeRank(b.company) || a.company.name.localeCompare(b.company.name))
+    .slice(0, limit)
+    .map(({ company }) => ({
+      symbol: company.symbol,
+      name: company.name,
+      exchange: company.exchange as TickerSearchResult['exchange'],
+      industry: company.industry || null,
+      source: 'list' as const,
+    }));
+}
+
+async function searchYahoo(query: string, limit: number): Promise<TickerSearchResult[]> {
+  const result = await dataProvider.search(query, { quotesCount: limit, newsCount: 0 }).catch(() => null);
+  return (result?.quotes || []).flatMap(q => {
+    const symbol = 'symbol' in q ? String(q.symbol) : '';
+    const listing = symbol.match(/^(.+)\.(NS|BO)$/);
+    if (!listing) return [];
+    const name = ('longname' in q && q.longname) || ('shortname' in q && q.shortname) || listing[1];
+    return [{
+      symbol: listing[1],
+      name: String(name),
+      exchange: listing[2] === 'NS' ? 'NSE' as const : 'BSE' as const,
+      industry: 'industry' in q && q.industry ? String(q.industry) : null,
+      source: 'yahoo' as const,
+    }];
+  });
+}
+
+// Fuzzy match on the industry workbook's symbols and company names, topped up from Yahoo
+// search when the workbook has little to offer (recent listings, SME boards, misspellings)
+export async function searchTickers(companies: ListedCompany[], query: string, limit: number): Promise<TickerSearchResult[]> {
+  const results = searchList(companies, query, limit);
+  if (results.length >= YAHOO_FALLBACK_BELOW) return results;
+
+  const seen = new Set(results.map(r => `${r.exchange}:${r.symbol}`));
+  for (const r of await searchYahoo(query, limit)) {
+    if (results.length >= limit) break;
+    if (seen.has(`${r.exchange}:${r.symbol}`)) continue;
+    seen.add(`${r.exchange}:${r.symbol}`);
+    results.push(r);
+  }
+  return results;
+}
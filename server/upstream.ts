@@ -0,0 +1,123 @@
+import pLimit from "p-limit";
+
+export class CircuitOpenError extends Error {
+  constructor(public retryAt: Date) {
+    super(`Upstream circuit open until ${retryAt.toISOString()}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+export interface UpstreamConfig {
+  concurrency: number;        // calls in flight at once
+  ratePerSecond: number;      // token bucket refill rate
+  burst: number;              // token bucket capacity
+  breakerThreshold: number;   // consecutive upstream failures that open the circuit
+  breakerCooldownMs: number;  // how long the circuit stays open before a trial call
+}
+
+// Throttling, auth rejections, server errors and network failures mean the upstream is
+// unhealthy; "not found" and validation errors are about the request and don't count
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof TypeError) return true; // fetch failed, connection reset
+  const e = error as { name?: string; code?: number } | null;
+  if (e?.name !== "HTTPError") return false;
+  return e.code === undefined || e.code === 401 || e.code === 403 || e.code === 429 || e.code >= 500;
+}
+
+// Shared gate for every call to an upstream API: single-flight coalescing of identical
+// in-flight calls, a concurrency cap, a token-bucket rate limit and a circuit breaker.
+export class UpstreamScheduler {
+  private limit: ReturnType<typeof pLimit>;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private tokens: number;
+  private lastRefill = Date.now();
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(private config: UpstreamConfig) {
+    this.limit = pLimit(config.concurrency);
+    this.tokens = config.burst;
+  }
+
+  get circuitOpen(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  // Run `task` under the scheduler; callers passing the same key while it is in flight share its result
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const promise = this.execute(task).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async execute<T>(task: () => Promise<T>): Promise<T> {
+    // Fail fast without queueing while the circuit is open
+    if (this.circuitOpen) throw new CircuitOpenError(new Date(this.openUntil));
+    return this.limit(async () => {
+      // Re-check after queueing: the circuit may have opened while this call waited
+      const trial = this.checkCircuit();
+      await this.takeToken();
+      try {
+        const result = await task();
+        // A call already in flight when the circuit opened proves nothing about recovery;
+        // only the half-open trial closes it
+        if (trial || this.openUntil === 0) this.consecutiveFailures = this.openUntil = 0;
+        return result;
+      } catch (error) {
+        if (isUpstreamFailure(error)) this.recordFailure(trial);
+        else if (trial) this.consecutiveFailures = this.openUntil = 0;
+        throw error;
+      } finally {
+        if (trial) this.trialInFlight = false;
+      }
+    });
+  }
+
+  // Throws while open. Once the cooldown has passed a single trial call is let through
+  // (half-open); returns true for that call.
+  private checkCircuit(): boolean {
+    if (this.openUntil === 0) return false;
+    if (Date.now() < this.openUntil || this.trialInFlight) throw new CircuitOpenError(new Date(this.openUntil));
+    this.trialInFlight = true;
+    return true;
+  }
+
+  private recordFailure(trial: boolean) {
+    this.consecutiveFailures++;
+    if (trial || this.consecutiveFailures >= this.config.breakerThreshold) {
+      this.openUntil = Date.now() + this.config.breakerCooldownMs;
+      console.warn(`Upstream circuit opened after ${this.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  private async takeToken() {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.config.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.config.ratePerSecond);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await new Promise(r => setTimeout(r, ((1 - this.tokens) / this.config.ratePerSecond) * 1000));
+    }
+  }
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// One scheduler for all Yahoo traffic, so concurrent analyses share the same budget
+export const yahooScheduler = new UpstreamScheduler({
+  concurrency: envNumber("UPSTREAM_CONCURRENCY", 6),
+  ratePerSecond: envNumber("UPSTREAM_RATE_PER_SECOND", 5),
+  burst: envNumber("UPSTREAM_BURST", 10),
+  breakerThreshold: envNumber("UPSTREAM_BREAKER_THRESHOLD", 5),
+  breakerCooldownMs: envNumber("UPSTREAM_BREAKER_COOLDOWN_MS", 30_000),
+});
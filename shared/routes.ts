@@ -1,5 +1,10 @@
 import { z } from 'zod';
-import { calculateBetaSchema, calculateBetaResponseSchema } from './schema';
+import {
+  benchmarkSchema, calculateBetaSchema, calculateBetaResponseSchema, rollingBetaQuerySchema, rollingBetaResponseSchema,
+  priceCacheStatusSchema, rebuildPriceCacheSchema, customSeriesUploadSchema, customSeriesInfoSchema,
+  bhavcopyImportRequestSchema, bhavcopyImportResultSchema, tickerSearchQuerySchema, tickerSearchResultSchema,
+  fundamentalHistoryQuerySchema, fundamentalHistorySchema, peerGroupInputSchema, peerGroupParamsSchema, peerGroupSchema,
+} from './schema';
 
 export const errorSchemas = {
     validation: z.object({
@@ -12,6 +17,27 @@ export const errorSchemas = {
 };
 
 export const api = {
+  tickers: {
+    search: {
+      method: 'GET' as const,
+      path: '/api/tickers/search',
+      input: tickerSearchQuerySchema,
+      responses: {
+        200: z.array(tickerSearchResultSchema),
+        400: errorSchemas.validation,
+        500: errorSchemas.internal
+      }
+    }
+  },
+  benchmarks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/benchmarks',
+      responses: {
+        200: z.array(benchmarkSchema)
+      }
+    }
+  },
   beta: {
     calculate: {
       method: 'POST' as const,
@@ -20,8 +46,159 @@ export const api = {
       responses: {
         200: calculateBetaResponseSchema,
         400: errorSchemas.validation,
+        404: errorSchemas.internal,
+        500: errorSchemas.internal,
+        503: errorSchemas.internal
+      }
+    },
+    rolling: {
+      method: 'GET' as const,
+      path: '/api/beta/rolling',
+      input: rollingBetaQuerySchema,
+      responses: {
+        200: rollingBetaResponseSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.internal,
+        500: errorSchemas.internal,
+        503: errorSchemas.internal
+      }
+    }
+  },
+  fundamentals: {
+    history: {
+      method: 'GET' as const,
+      path: '/api/fundamentals/:ticker/history',
+      input: fundamentalHistoryQuerySchema,
+      responses: {
+        200: fundamentalHistorySchema,
+        400: errorSchemas.validation,
+        500: errorSchemas.internal
+      }
+    }
+  },
+  peerGroups: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/peer-groups',
+      responses: {
+        200: z.array(peerGroupSchema)
+      }
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/peer-groups/:id',
+      params: peerGroupParamsSchema,
+      responses: {
+        200: peerGroupSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.internal
+      }
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/peer-groups',
+      input: peerGroupInputSchema,
+      responses: {
+        201: peerGroupSchema,
+        400: errorSchemas.validation,
+        409: errorSchemas.internal,
+        500: errorSchemas.internal
+      }
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/peer-groups/:id',
+      params: peerGroupParamsSchema,
+      input: peerGroupInputSchema,
+      responses: {
+        200: peerGroupSchema,
+        400: errorSchemas.validation,
+        404: errorSchemas.internal,
+        409: errorSchemas.internal,
         500: errorSchemas.internal
       }
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/peer-groups/:id',
+      params: peerGroupParamsSchema,
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        404: errorSchemas.internal
+      }
+    }
+  },
+  customSeries: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/custom-series',
+      responses: {
+        200: z.array(customSeriesInfoSchema)
+      }
+    },
+    upload: {
+      method: 'POST' as const,
+      path: '/api/custom-series/:symbol',
+      input: customSeriesUploadSchema, // query string; the body is the raw CSV or XLSX file
+      responses: {
+        201: customSeriesInfoSchema,
+        400: errorSchemas.validation,
+        500: errorSchemas.internal
+      }
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/custom-series/:symbol',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.internal
+      }
+    }
+  },
+  admin: {
+    priceCache: {
+      status: {
+        method: 'GET' as const,
+        path: '/api/admin/price-cache/:symbol',
+        responses: {
+          200: priceCacheStatusSchema,
+          401: errorSchemas.internal
+        }
+      },
+      purge: {
+        method: 'DELETE' as const,
+        path: '/api/admin/price-cache/:symbol',
+        responses: {
+          200: z.object({ symbol: z.string(), deleted: z.number() }),
+          401: errorSchemas.internal
+        }
+      },
+      rebuild: {
+        method: 'POST' as const,
+        path: '/api/admin/price-cache/:symbol/rebuild',
+        input: rebuildPriceCacheSchema,
+        responses: {
+          200: priceCacheStatusSchema,
+          400: errorSchemas.validation,
+          401: errorSchemas.internal,
+          404: errorSchemas.internal,
+          500: errorSchemas.internal
+        }
+      }
+    },
+    bhavcopy: {
+      import: {
+        method: 'POST' as const,
+        path: '/api/admin/bhavcopy/import',
+        input: bhavcopyImportRequestSchema,
+        responses: {
+          200: bhavcopyImportResultSchema,
+          400: errorSchemas.validation,
+          401: errorSchemas.internal,
+          500: errorSchemas.internal
+        }
+      }
     }
   }
 };
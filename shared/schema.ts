@@ -1,4 +1,4 @@
-import { pgTable, text, serial, timestamp, jsonb, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, doublePrecision, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -25,40 +25,252 @@ export const companyProfiles = pgTable("company_profiles", {
   ticker: text("ticker").primaryKey(),
   keywords: text("keywords").array().notNull(),
   embedding: doublePrecision("embedding").array().notNull(),
+  backend: text("backend").notNull().default("openai"), // similarity backend that built the profile: "openai" or "local"
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Daily bars cached from the market data provider, one row per symbol per trading day
+export const priceBars = pgTable("price_bars", {
+  symbol: text("symbol").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD
+  open: doublePrecision("open"),
+  high: doublePrecision("high"),
+  low: doublePrecision("low"),
+  close: doublePrecision("close").notNull(),
+  adjClose: doublePrecision("adj_close"),
+  volume: doublePrecision("volume"),
+  source: text("source").notNull().default("yahoo"), // "yahoo", "custom" (user upload), or "nse"/"bse" (bhavcopy)
+  series: text("series"),                            // exchange series, e.g. EQ or BE; bhavcopy only
+  isin: text("isin"),
+  tradedValue: doublePrecision("traded_value"),      // turnover in INR; bhavcopy only
+}, (table) => [primaryKey({ columns: [table.symbol, table.date, table.source] })]);
+
+// One row per exchange trading day loaded from a bhavcopy file, so re-imports are skipped
+export const bhavcopyImports = pgTable("bhavcopy_imports", {
+  exchange: text("exchange").notNull(), // "nse" or "bse", matching price_bars.source
+  tradeDate: text("trade_date").notNull(), // YYYY-MM-DD
+  fileName: text("file_name").notNull(),
+  rows: integer("rows").notNull(),
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.exchange, table.tradeDate] })]);
+
+// Date range already fetched for a symbol, so listing gaps and holidays aren't refetched
+export const priceCoverage = pgTable("price_coverage", {
+  symbol: text("symbol").primaryKey(),
+  fromDate: text("from_date").notNull(),
+  toDate: text("to_date").notNull(),
+  refreshedAt: timestamp("refreshed_at").defaultNow().notNull(),
+});
+
+// Uploaded price/NAV series for unlisted or private comparables. Symbols carry the
+// CUSTOM: prefix so they can never shadow an exchange ticker.
+export const customSeries = pgTable("custom_series", {
+  symbol: text("symbol").primaryKey(),
+  name: text("name").notNull(),
+  fileName: text("file_name"),
+  uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
+});
+
+export const CUSTOM_SYMBOL_PREFIX = "CUSTOM:";
+
+// Cross-reference of one company's listings. NSE trades by symbol, BSE by numeric scrip code;
+// ISIN ties the two together when an exchange master file provides it.
+export const securities = pgTable("securities", {
+  id: serial("id").primaryKey(),
+  isin: text("isin").unique(),
+  nseSymbol: text("nse_symbol").unique(),
+  bseCode: text("bse_code").unique(),   // e.g. 500325
+  bseSymbol: text("bse_symbol"),        // BSE security id, e.g. RELIANCE; Yahoo also quotes it with .BO
+  name: text("name").notNull(),
+  industry: text("industry"),           // industry group from the industry workbook, else the BSE master's
+});
+
+// Fundamentals observed for a ticker each day it is analysed, one row per metric, so multiples
+// and margins can be charted over our own observation history. Amounts are in INR.
+export const fundamentalSnapshots = pgTable("fundamental_snapshots", {
+  ticker: text("ticker").notNull(),
+  snapshotDate: text("snapshot_date").notNull(), // YYYY-MM-DD of the fetch; later fetches that day overwrite
+  metric: text("metric").notNull(),              // one of FUNDAMENTAL_METRICS
+  value: doublePrecision("value").notNull(),
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+}, (table) => [primaryKey({ columns: [table.ticker, table.snapshotDate, table.metric] })]);
+
+// Named comparable sets maintained by the team, usable in place of automatic peer discovery
+export const peerGroups = pgTable("peer_groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  tickers: text("tickers").array().notNull(), // Yahoo tickers or CUSTOM: symbols, as in the peer table
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const insertSearchSchema = createInsertSchema(searches).omit({ id: true, createdAt: true });
 export const insertCompanyProfileSchema = createInsertSchema(companyProfiles);
+export const insertPriceBarSchema = createInsertSchema(priceBars);
+export const insertCustomSeriesSchema = createInsertSchema(customSeries).omit({ uploadedAt: true });
+export const insertSecuritySchema = createInsertSchema(securities).omit({ id: true });
 
 export type Search = typeof searches.$inferSelect;
 export type InsertSearch = z.infer<typeof insertSearchSchema>;
 export type CompanyProfile = typeof companyProfiles.$inferSelect;
 export type InsertCompanyProfile = z.infer<typeof insertCompanyProfileSchema>;
+export type PriceBar = typeof priceBars.$inferSelect;
+export type InsertPriceBar = z.infer<typeof insertPriceBarSchema>;
+export type PriceCoverage = typeof priceCoverage.$inferSelect;
+export type BhavcopyImport = typeof bhavcopyImports.$inferSelect;
+export type CustomSeries = typeof customSeries.$inferSelect;
+export type InsertCustomSeries = z.infer<typeof insertCustomSeriesSchema>;
+export type Security = typeof securities.$inferSelect;
+export type InsertSecurity = z.infer<typeof insertSecuritySchema>;
+export type FundamentalSnapshot = typeof fundamentalSnapshots.$inferSelect;
+export type PeerGroup = typeof peerGroups.$inferSelect;
 
 // API Request/Response Types
+export const benchmarkSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    symbol: z.string(),
+    exchange: z.enum(["NSE", "BSE"]),
+    category: z.enum(["Broad", "Size", "Sector"]),
+});
+
+export type Benchmark = z.infer<typeof benchmarkSchema>;
+
+// Screens on discovered peers, applied in this order after their betas are computed. Peers from
+// includePeers, customPeers or a peer group are never screened out.
+export const peerFiltersSchema = z.object({
+    marketCapBand: z.object({                                   // peer market cap as a multiple of the target's
+        min: z.number().positive(),
+        max: z.number().positive(),
+    }).refine(b => b.min <= b.max, { message: "min must not exceed max" }).optional(),
+    minAvgTradedValue: z.number().min(0).optional(),            // INR per day, averaged over the window
+    minRSquared: z.number().min(0).max(1).optional(),
+    minDataPoints: z.number().int().min(2).optional(),          // aligned prices at the chosen frequency
+    maxPeers: z.number().int().min(1).max(20).optional(),       // discovered peers kept, best ranked first; default 10
+});
+
+export type PeerFilters = z.infer<typeof peerFiltersSchema>;
+
 export const calculateBetaSchema = z.object({
     ticker: z.string().min(1),
     exchange: z.enum(["NSE", "BSE"]),
+    benchmark: z.string().optional(), // benchmark id; defaults to the exchange's headline index
     period: z.enum(["1Y", "3Y", "5Y"]).default("5Y"),
+    frequency: z.enum(["daily", "weekly", "monthly"]).default("daily"),
+    betaMethod: z.enum(["ols", "dimson", "scholesWilliams"]).default("ols"),
+    useAdjustedPrices: z.boolean().default(true),               // regress on split/dividend-adjusted closes
+    dropSuspiciousReturns: z.boolean().default(false),          // exclude detected corporate-action gaps
+    taxRate: z.number().min(0).max(1).default(0.25),           // marginal tax rate for unlevering, as a decimal
+    targetDebtToEquity: z.number().min(0).optional(),          // D/E to relever at, as a decimal ratio
+    customPeers: z.array(z.string()).max(10).optional(),       // uploaded CUSTOM: symbols to add as peers
+    includePeers: z.array(z.string().min(1)).max(20).optional(), // tickers always computed as peers, whatever their industry
+    excludePeers: z.array(z.string().min(1)).max(50).optional(), // tickers never returned as peers; wins over includePeers
+    peerGroupId: z.number().int().positive().optional(),        // saved peer group to use instead of discovery
+    peerFilters: peerFiltersSchema.optional(),
+    preferExchangeBars: z.boolean().default(false),             // use imported NSE/BSE bhavcopy bars where they cover the window
+    riskFreeSource: z.enum(["none", "constant", "tbill"]).default("none"),
+    riskFreeRate: z.number().min(-0.05).max(0.5).optional(),    // annual, as a decimal; used when riskFreeSource is "constant"
     startDate: z.string(), // ISO Date string
     endDate: z.string(),   // ISO Date string
 });
 
 export type CalculateBetaRequest = z.infer<typeof calculateBetaSchema>;
 
+export const adjustedBetasSchema = z.object({
+    blume: z.number().nullable(),
+    vasicek: z.number().nullable(),
+});
+
+export type AdjustedBetas = z.infer<typeof adjustedBetasSchema>;
+
+export const regressionDiagnosticsSchema = z.object({
+    standardError: z.number(),
+    tStat: z.number(),
+    pValue: z.number(),
+    confidenceInterval: z.object({
+        level: z.number(),
+        lower: z.number(),
+        upper: z.number(),
+    }),
+    residualStdDev: z.number(), // annualised idiosyncratic volatility
+    alphaTStat: z.number(),
+});
+
+export type RegressionDiagnostics = z.infer<typeof regressionDiagnosticsSchema>;
+
+// A return that looks like an unadjusted corporate action rather than a market move
+export const suspiciousReturnSchema = z.object({
+    date: z.string(),
+    stockReturn: z.number(),
+    marketReturn: z.number(),
+    dropped: z.boolean(),
+});
+
+export type SuspiciousReturn = z.infer<typeof suspiciousReturnSchema>;
+
+// Beta under the Hamada and Harris–Pringle capital structure formulas
+export const leverageBetasSchema = z.object({
+    hamada: z.number().nullable(),
+    harrisPringle: z.number().nullable(),
+});
+
+export type LeverageBetas = z.infer<typeof leverageBetasSchema>;
+
+const centralTendencySchema = z.object({
+    median: z.number().nullable(),
+    mean: z.number().nullable(),
+});
+
+export const bottomUpBetaSchema = z.object({
+    taxRate: z.number(),
+    peerCount: z.number(),
+    skippedPeers: z.array(z.object({ ticker: z.string(), reason: z.string() })).optional(), // peers whose D/E can't be unlevered
+    unlevered: z.object({
+        hamada: centralTendencySchema,
+        harrisPringle: centralTendencySchema,
+    }),
+    currentDebtToEquity: z.number().nullable(),
+    releveredAtCurrent: leverageBetasSchema,
+    targetDebtToEquity: z.number().nullable(),
+    releveredAtTarget: leverageBetasSchema.nullable(),
+});
+
+export type BottomUpBeta = z.infer<typeof bottomUpBetaSchema>;
+
+// INR per unit of `currency`, and the trading day the rate is for
+export const fxRateSchema = z.object({
+    currency: z.string(),
+    rate: z.number(),
+    date: z.string(),
+    source: z.enum(["historical", "live", "identity"]),
+});
+
+export type FxRate = z.infer<typeof fxRateSchema>;
+
 export const peerBetaSchema = z.object({
     ticker: z.string(),
     name: z.string(),
     industry: z.string().optional().nullable(),
     beta: z.number().nullable(),
+    betaMethod: z.string().optional(),
+    adjustedBetas: adjustedBetasSchema.optional(),
+    diagnostics: regressionDiagnosticsSchema.optional().nullable(),
     volatility: z.number().nullable(),
     alpha: z.number().nullable(),
     correlation: z.number().nullable(),
     rSquared: z.number().nullable(),
+    downsideBeta: z.number().optional().nullable(),
+    upsideBeta: z.number().optional().nullable(),
+    downsideVolatility: z.number().optional().nullable(),
+    sortinoRatio: z.number().optional().nullable(),
+    maxDrawdown: z.number().optional().nullable(),
+    sharpeRatio: z.number().optional().nullable(),
+    treynorRatio: z.number().optional().nullable(),
     marketCap: z.number().optional(),
     revenue: z.number().optional(),
     revenueDate: z.string().optional(),
+    financialFx: fxRateSchema.optional().nullable(),
     enterpriseValue: z.number().optional(),
     evRevenueMultiple: z.number().optional(),
     peRatio: z.number().optional().nullable(),
@@ -66,6 +278,8 @@ export const peerBetaSchema = z.object({
     dividendYield: z.number().optional().nullable(),
     ebitda: z.number().optional(),
     debtToEquity: z.number().optional().nullable(),
+    unleveredBeta: leverageBetasSchema.optional(),
+    droppedReturnDates: z.array(z.string()).optional(),
     profitMargin: z.number().optional().nullable(),
     grossMargin: z.number().optional().nullable(),
     operatingMargin: z.number().optional().nullable(),
@@ -74,30 +288,85 @@ export const peerBetaSchema = z.object({
     currentRatio: z.number().optional().nullable(),
     sector: z.string().optional(),
     sourceUrl: z.string().optional(),
-    similarityScore: z.number().optional(),
-    confidence: z.enum(["High", "Medium", "Fallback"]).optional(),
+    customSeries: z.boolean().optional(), // price history comes from an uploaded series
+    dataPoints: z.number().optional(),
+    avgTradedValue: z.number().optional().nullable(), // INR per day over the window
+    peerSource: z.enum(["discovered", "manual", "group"]).optional(), // found by getPeers, named in includePeers/customPeers, or from the peer group
+    priceSource: z.string().optional(),   // source of the bars regressed: yahoo, nse, bse or custom
+    similarityScore: z.number().optional(), // cosine similarity of business-description embeddings
+    confidence: z.enum(["High", "Medium", "Fallback"]).optional(), // Fallback: industry match only, no embeddings
+    keywords: z.array(z.string()).optional(),
     error: z.string().optional()
 });
 
 export type PeerBeta = z.infer<typeof peerBetaSchema>;
 
+// Discovered peers removed by each screen, in the order applied
+export const peerScreeningSchema = z.object({
+    candidates: z.number(),
+    removed: z.object({
+        missingData: z.number(),   // no usable price history or market cap
+        marketCapBand: z.number(),
+        avgTradedValue: z.number(),
+        rSquared: z.number(),
+        dataPoints: z.number(),
+        maxPeers: z.number(),
+    }),
+    kept: z.number(),
+    notes: z.array(z.string()),
+});
+
+export type PeerScreening = z.infer<typeof peerScreeningSchema>;
+
+// How the headline beta was obtained: a regression on the requested listing, on the company's
+// other exchange listing, or the peer median when neither has enough history
+export const betaSourceSchema = z.enum(["regression", "alternateListing", "peerProxy"]);
+
+export type BetaSource = z.infer<typeof betaSourceSchema>;
+
 export const calculateBetaResponseSchema = z.object({
     ticker: z.string(),
     name: z.string().optional(),
     marketIndex: z.string(),
+    benchmark: z.string().optional(),
     industry: z.string().optional().nullable(),
     sector: z.string().optional().nullable(),
     exchange: z.string().optional(),
     beta: z.number(),
+    betaSource: betaSourceSchema.optional(),
+    betaSourceNote: z.string().optional().nullable(), // why the beta is not a regression on the requested listing
+    regressionTicker: z.string().optional().nullable(), // listing whose prices were regressed; null for a peer proxy
+    betaMethod: z.string().optional(),
+    adjustedBetas: adjustedBetasSchema.optional(),
+    diagnostics: regressionDiagnosticsSchema.optional().nullable(),
     volatility: z.number().optional(),
     alpha: z.number().optional(),
     correlation: z.number().optional(),
     rSquared: z.number().optional().nullable(),
+    downsideBeta: z.number().optional().nullable(),
+    upsideBeta: z.number().optional().nullable(),
+    downsideVolatility: z.number().optional().nullable(),
+    sortinoRatio: z.number().optional().nullable(),
+    maxDrawdown: z.number().optional().nullable(),
+    sharpeRatio: z.number().optional().nullable(),
+    treynorRatio: z.number().optional().nullable(),
+    riskFreeSource: z.string().optional(),
+    riskFreeRate: z.number().optional(), // average annual rate over the sample
     period: z.string().optional(),
+    frequency: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    useAdjustedPrices: z.boolean().optional(),
+    dropSuspiciousReturns: z.boolean().optional(),
+    preferExchangeBars: z.boolean().optional(),
+    priceSource: z.string().optional(),
+    suspiciousReturns: z.array(suspiciousReturnSchema).optional(),
     dataPoints: z.number().optional(),
     marketCap: z.number().optional().nullable(),
     revenue: z.number().optional().nullable(),
-    revenueDate: z.string().optional().nullable(),
+    revenueDate: z.string().optional().nullable(),            // period end the TTM financials are reported to
+    priceFx: fxRateSchema.optional().nullable(),        // rate applied to price-based figures (market cap, EV)
+    financialFx: fxRateSchema.optional().nullable(),    // rate at revenueDate applied to revenue and EBITDA
     enterpriseValue: z.number().optional().nullable(),
     evRevenueMultiple: z.number().optional().nullable(),
     peRatio: z.number().optional().nullable(),
@@ -112,7 +381,163 @@ export const calculateBetaResponseSchema = z.object({
     returnOnAssets: z.number().optional().nullable(),
     currentRatio: z.number().optional().nullable(),
     sourceUrl: z.string().optional().nullable(),
+    bottomUpBeta: bottomUpBetaSchema.optional(),
+    peerGroup: z.object({ id: z.number(), name: z.string() }).optional().nullable(), // saved group the peers came from
+    peerScreening: peerScreeningSchema.optional(),
     peers: z.array(peerBetaSchema)
 });
 
 export type CalculateBetaResponse = z.infer<typeof calculateBetaResponseSchema>;
+
+export const rollingBetaQuerySchema = z.object({
+    ticker: z.string().min(1),
+    exchange: z.enum(["NSE", "BSE"]),
+    benchmark: z.string().optional(),
+    startDate: z.string(),
+    endDate: z.string(),
+    frequency: z.enum(["daily", "weekly", "monthly"]).default("daily"),
+    betaMethod: z.enum(["ols", "dimson", "scholesWilliams"]).default("ols"),
+    useAdjustedPrices: z.enum(["true", "false"]).default("true").transform(v => v === "true"),
+    dropSuspiciousReturns: z.enum(["true", "false"]).default("false").transform(v => v === "true"),
+    preferExchangeBars: z.enum(["true", "false"]).default("false").transform(v => v === "true"),
+    riskFreeSource: z.enum(["none", "constant", "tbill"]).default("none"), // as on calculate, so the chart matches the headline beta
+    riskFreeRate: z.coerce.number().min(-0.05).max(0.5).optional(),
+    window: z.coerce.number().int().min(10).optional(), // returns per window; defaults to one year
+    step: z.coerce.number().int().min(1).optional(),    // returns between windows; defaults to ~1 month
+    peers: z.string().optional(),                       // comma-separated tickers for the peer-median line
+});
+
+export type RollingBetaQuery = z.input<typeof rollingBetaQuerySchema>;
+
+export const rollingBetaPointSchema = z.object({
+    date: z.string(),
+    beta: z.number(),
+    rSquared: z.number(),
+    volatility: z.number(),
+});
+
+export type RollingBetaPoint = z.infer<typeof rollingBetaPointSchema>;
+
+export const rollingBetaResponseSchema = z.object({
+    ticker: z.string(),
+    marketIndex: z.string(),
+    benchmark: z.string(),
+    frequency: z.string(),
+    window: z.number(),
+    step: z.number(),
+    priceSource: z.string().optional(),
+    series: z.array(rollingBetaPointSchema),
+    peerMedian: z.array(z.object({ date: z.string(), beta: z.number() })),
+});
+
+export type RollingBetaResponse = z.infer<typeof rollingBetaResponseSchema>;
+
+export const priceCacheStatusSchema = z.object({
+    symbol: z.string(),
+    bars: z.number(),
+    fromDate: z.string().nullable(),
+    toDate: z.string().nullable(),
+    firstBar: z.string().nullable(),
+    lastBar: z.string().nullable(),
+    refreshedAt: z.string().nullable(),
+});
+
+export type PriceCacheStatus = z.infer<typeof priceCacheStatusSchema>;
+
+export const rebuildPriceCacheSchema = z.object({
+    startDate: z.string().optional(), // ISO Date string; defaults to five years before endDate
+    endDate: z.string().optional(),   // ISO Date string; defaults to now
+});
+
+export const customSeriesUploadSchema = z.object({
+    name: z.string().max(120).optional(),     // display name; defaults to the symbol
+    fileName: z.string().max(255).optional(),
+});
+
+export const customSeriesInfoSchema = z.object({
+    symbol: z.string(), // with the CUSTOM: prefix, as used in ticker and customPeers
+    name: z.string(),
+    fileName: z.string().nullable(),
+    uploadedAt: z.string(),
+    bars: z.number(),
+    firstDate: z.string().nullable(),
+    lastDate: z.string().nullable(),
+    skippedRows: z.number().optional(),
+});
+
+export type CustomSeriesInfo = z.infer<typeof customSeriesInfoSchema>;
+
+export const bhavcopyImportRequestSchema = z.object({
+    force: z.boolean().default(false), // reload trading days that were already imported
+});
+
+export const bhavcopyImportResultSchema = z.object({
+    directory: z.string(),
+    loaded: z.array(z.object({ exchange: z.string(), date: z.string(), file: z.string(), rows: z.number() })),
+    skipped: z.array(z.object({ file: z.string(), exchange: z.string().optional(), date: z.string().optional(), reason: z.string() })),
+});
+
+export type BhavcopyImportResult = z.infer<typeof bhavcopyImportResultSchema>;
+
+export const tickerSearchQuerySchema = z.object({
+    q: z.string().trim().min(1),
+    limit: z.coerce.number().int().min(1).max(25).default(10),
+});
+
+export const tickerSearchResultSchema = z.object({
+    symbol: z.string(),                   // without the exchange suffix; BSE listings may be numeric scrip codes
+    name: z.string(),
+    exchange: z.enum(["NSE", "BSE"]),
+    industry: z.string().nullable(),
+    source: z.enum(["list", "yahoo"]),    // industry workbook or Yahoo search fallback
+});
+
+export type TickerSearchResult = z.infer<typeof tickerSearchResultSchema>;
+
+// Response fields recorded in fundamental_snapshots
+export const FUNDAMENTAL_METRICS = [
+    "marketCap", "revenue", "enterpriseValue", "evRevenueMultiple", "ebitda", "peRatio", "pbRatio", "dividendYield",
+    "debtToEquity", "profitMargin", "grossMargin", "operatingMargin", "returnOnEquity", "returnOnAssets", "currentRatio",
+] as const;
+
+export const fundamentalMetricSchema = z.enum(FUNDAMENTAL_METRICS);
+
+export type FundamentalMetric = z.infer<typeof fundamentalMetricSchema>;
+
+export const fundamentalHistoryQuerySchema = z.object({
+    metric: fundamentalMetricSchema,
+    exchange: z.enum(["NSE", "BSE"]).default("NSE"), // for tickers given without a suffix
+    from: z.string().optional(),                      // YYYY-MM-DD, inclusive
+    to: z.string().optional(),
+});
+
+export const fundamentalHistorySchema = z.object({
+    ticker: z.string(),
+    metric: fundamentalMetricSchema,
+    points: z.array(z.object({ date: z.string(), value: z.number() })),
+});
+
+export type FundamentalHistory = z.infer<typeof fundamentalHistorySchema>;
+
+export const peerGroupInputSchema = z.object({
+    name: z.string().trim().min(1).max(120),
+    description: z.string().trim().max(500).optional().nullable(),
+    tickers: z.array(z.string().trim().min(1)).min(1).max(30),
+});
+
+export type PeerGroupInput = z.infer<typeof peerGroupInputSchema>;
+
+export const peerGroupParamsSchema = z.object({
+    id: z.coerce.number().int().positive(),
+});
+
+export const peerGroupSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string().nullable(),
+    tickers: z.array(z.string()),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+export type PeerGroupInfo = z.infer<typeof peerGroupSchema>;